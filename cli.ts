@@ -1,42 +1,275 @@
-import { searchTheme, downloadTheme } from "./src/theme-finder";
-import { findProvider } from "./src/providers";
+import {
+  searchTheme,
+  downloadTheme,
+  getExtension,
+  Extension,
+  SearchFilters,
+  SearchOptions,
+  ThemeSelector,
+} from "./src/theme-finder";
+import { formatTable, parseExtensionId } from "./src/utils";
+import { createOpenVSXRegistry } from "./src/registries/openvsx";
+import { createLocalRegistry } from "./src/registries/local";
+import {
+  clearCache,
+  createCachedRegistry,
+  getDefaultCacheDir,
+  listCache,
+} from "./src/registries/cache";
+import { allProviders, findProvider } from "./src/providers";
+import {
+  loadThemeFromDirectory,
+  loadThemeFromFile,
+  loadThemeFromVSIX,
+} from "./src/local";
+import { createPicker, IPicker } from "./src/picker";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
-import { writeFile } from "fs/promises";
+import { join } from "path";
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  getOutputPath,
+  writeOutputFile,
+} from "./src/output";
 
 const args = yargs(hideBin(process.argv)).argv as any;
 
+const cacheDir: string = args.cacheDir || getDefaultCacheDir();
+
+const registry = args.registryDir
+  ? createLocalRegistry(args.registryDir)
+  : createCachedRegistry(createOpenVSXRegistry(args.registry), {
+      cacheDir,
+      offline: !!args.offline,
+      refresh: !!args.refresh,
+    });
+
+const SORT_BY = ["relevance", "timestamp", "rating", "downloadCount"];
+const SORT_ORDER = ["asc", "desc"];
+
 async function main() {
-  if (
-    !args.provider ||
-    (args.provider !== "kate" && args.provider !== "docgen")
-  ) {
-    console.error("Please specify provider. One of kate or docgen.");
+  const [command] = args._;
+  if (command === "search") await search();
+  else if (command === "cache") await cache();
+  else await convert();
+}
+
+async function cache() {
+  const [, subcommand] = args._;
+  if (subcommand === "list") {
+    const entries = await listCache(cacheDir);
+    if (entries.length <= 0) {
+      console.log("Cache is empty.");
+      return;
+    }
+
+    console.log(
+      formatTable([
+        ["ID", "Version", "Size", "Cached at"],
+        ...entries.map(({ extension, size, cachedAt }) => [
+          `${extension.namespace}.${extension.name}`,
+          extension.version,
+          `${(size / 1024).toFixed(1)} KB`,
+          cachedAt,
+        ]),
+      ])
+    );
+  } else if (subcommand === "clear") {
+    await clearCache(cacheDir);
+    console.log("Cleared", cacheDir);
+  } else {
+    console.error("Please specify a cache command. One of list or clear.");
+    process.exit(-1);
+  }
+}
+
+async function search() {
+  const query = args._[1] ?? args.query;
+  if (!query) {
+    console.error("Please specify a search query. e.g. search material");
+    process.exit(-1);
+  }
+
+  const options = getSearchOptions();
+  const { offset, totalSize, extensions } = await searchTheme(
+    String(query),
+    options,
+    registry
+  );
+  // --min-rating & --min-downloads only filter the requested page
+  const isFiltered =
+    options.minRating !== undefined || options.minDownloads !== undefined;
+  const nextOffset = offset + (options.size || 10);
+  const page = `${offset + 1}-${Math.min(
+    nextOffset,
+    totalSize
+  )} of ${totalSize}`;
+  const nextPageHint = `Use --offset ${nextOffset} to see the next page.`;
+
+  if (extensions.length <= 0) {
+    if (isFiltered && offset < totalSize) {
+      console.error(`None of the results ${page} match the filters.`);
+      if (nextOffset < totalSize) console.error(nextPageHint);
+    } else console.error("Nothing found.");
     process.exit(-1);
   }
 
-  if (!args.query) {
+  console.log(
+    formatTable([
+      ["ID", "Name", "Version", "Downloads", "Rating"],
+      ...extensions.map((e) => [
+        `${e.namespace}.${e.name}`,
+        e.displayName || e.name,
+        e.version,
+        String(e.downloadCount),
+        e.averageRating !== undefined ? e.averageRating.toFixed(1) : "-",
+      ]),
+    ])
+  );
+
+  console.log(
+    isFiltered
+      ? `\n${extensions.length} of results ${page} match the filters.`
+      : `\nShowing results ${page}.`
+  );
+  if (nextOffset < totalSize) console.log(nextPageHint);
+}
+
+async function convert() {
+  const provider = findProvider(args.provider);
+  if (!provider) {
     console.error(
-      "Please specify a valid query string. Note: themes are downloaded from open-vsx.org."
+      `Please specify provider. One of ${allProviders().join(", ")}.`
     );
     process.exit(-1);
   }
 
-  const results = await searchTheme(args.query);
-  if (results.length <= 0) {
-    console.error("Nothing found.");
+  if (args.force && args.skipExisting) {
+    console.error("--force & --skip-existing cannot be used together.");
     process.exit(-1);
   }
 
-  const themes = await downloadTheme(results[0]);
+  if (!args.query && !args.extension && !args.vsix && !args.dir && !args.file) {
+    console.error(
+      "Please specify a valid query string (--query), a .vsix file (--vsix), an extension directory (--dir) or theme JSON files (--file). Note: queried themes are downloaded from open-vsx.org."
+    );
+    process.exit(-1);
+  }
+
+  const picker = args.interactive ? createPicker() : undefined;
+  const themes = await loadThemes(picker).finally(() => picker?.close());
   if (!themes) {
     console.error("No themes found for this query.");
     process.exit(-1);
   }
 
-  const provider = findProvider(args.provider);
+  const outDir: string = args.outDir || ".";
+  const template: string =
+    args.filename || provider.filename || DEFAULT_FILENAME_TEMPLATE;
+  const overwrite = args.force ? "force" : args.skipExisting ? "skip" : "error";
   for (const theme of themes) {
-    await writeFile(`${theme.name}.theme`, provider!.convert(theme));
+    const path = join(outDir, getOutputPath(template, theme, provider));
+    if (await writeOutputFile(path, provider.convert(theme), overwrite))
+      console.info("Saved", path);
+    else console.info("Skipped", path, "(already exists)");
   }
 }
-main();
+
+async function loadThemes(picker?: IPicker) {
+  const selectThemes = createThemeSelector(picker);
+  if (args.vsix) return await loadThemeFromVSIX(args.vsix, selectThemes);
+  if (args.dir) return await loadThemeFromDirectory(args.dir, selectThemes);
+  if (args.file) {
+    const themes = [];
+    for (const file of toArray(args.file))
+      themes.push(await loadThemeFromFile(file));
+    return themes;
+  }
+
+  if (args.extension) {
+    const extension = await getPinnedExtension(String(args.extension));
+    return await downloadTheme(extension, selectThemes, registry);
+  }
+
+  const { extensions: results } = await searchTheme(
+    args.query,
+    getSearchOptions(),
+    registry
+  );
+  if (results.length <= 0) {
+    console.error("Nothing found.");
+    process.exit(-1);
+  }
+
+  const extension = picker ? await picker.pickExtension(results) : results[0];
+  return await downloadTheme(extension, selectThemes, registry);
+}
+
+async function getPinnedExtension(id: string): Promise<Extension> {
+  const extensionId = parseExtensionId(id);
+  if (!extensionId) {
+    console.error(
+      `Invalid extension "${id}". Expected namespace.name or namespace.name@version.`
+    );
+    process.exit(-1);
+  }
+
+  const { namespace, name, version } = extensionId;
+  const extension = await getExtension(namespace, name, version, registry);
+  if (!extension) {
+    console.error(`Extension ${id} not found.`);
+    process.exit(-1);
+  }
+  return extension;
+}
+
+function getSearchOptions(): SearchOptions & SearchFilters {
+  if (args.sortBy && !SORT_BY.includes(args.sortBy)) {
+    console.error(`Invalid --sort-by. One of ${SORT_BY.join(", ")}.`);
+    process.exit(-1);
+  }
+  if (args.sortOrder && !SORT_ORDER.includes(args.sortOrder)) {
+    console.error(`Invalid --sort-order. One of ${SORT_ORDER.join(", ")}.`);
+    process.exit(-1);
+  }
+
+  return {
+    offset: args.offset,
+    size: args.size,
+    sortBy: args.sortBy,
+    sortOrder: args.sortOrder,
+    minRating: args.minRating,
+    minDownloads: args.minDownloads,
+  };
+}
+
+function createThemeSelector(picker?: IPicker): ThemeSelector | undefined {
+  if (args.theme) {
+    const labels = toArray(args.theme).map((l) => String(l).toLowerCase());
+    return (themes) => {
+      const selected = themes.filter((t) =>
+        labels.includes(t.label.toLowerCase())
+      );
+      if (!selected.length) {
+        console.error(
+          `No theme found with the given label. Available themes: ${themes
+            .map((t) => t.label)
+            .join(", ")}`
+        );
+        process.exit(-1);
+      }
+      return selected;
+    };
+  }
+
+  if (picker) return picker.pickThemes;
+}
+
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+main().catch((e) => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(-1);
+});
@@ -55,7 +55,7 @@ const Color = {
   fromHex: (color: string) => {
     return {
       transparent(factor: number) {
-        return tinycolor2(color).setAlpha(factor).toHexString();
+        return toHex(tinycolor2(color).setAlpha(factor));
       },
     };
   },
@@ -91,10 +91,17 @@ const Color = {
   },
 };
 
+/**
+ * Formats a color as `#RRGGBB`, or `#RRGGBBAA` if it is translucent
+ */
+export function toHex(color: tinycolor2.Instance): string {
+  return color.getAlpha() < 1 ? color.toHex8String() : color.toHexString();
+}
+
 /**
  * A Color Value is either a color literal, a reference to an other color or a derived color
  */
-type ColorValue = string | ColorIdentifier | ColorTransform;
+export type ColorValue = string | ColorIdentifier | ColorTransform;
 
 export const schemes: Record<
   keyof ColorDefaults,
@@ -947,8 +954,8 @@ const quickInputForeground = registerColor(
 const quickInputTitleBackground = registerColor(
   "quickInputTitle.background",
   {
-    dark: tinycolor2("rgba (255,255,255,0.105)").toHexString(),
-    light: tinycolor2("rgba (0, 0, 0, 0.06)").toHexString(),
+    dark: toHex(tinycolor2("rgba (255,255,255,0.105)")),
+    light: toHex(tinycolor2("rgba (0, 0, 0, 0.06)")),
     hcDark: "#000000",
     hcLight: Color.white,
   },
@@ -987,8 +994,8 @@ const pickerGroupBorder = registerColor(
 const keybindingLabelBackground = registerColor(
   "keybindingLabel.background",
   {
-    dark: tinycolor2("rgba (128, 128, 128, 0.17)").toHexString(),
-    light: tinycolor2("rgba (221, 221, 221, 0.4)").toHexString(),
+    dark: toHex(tinycolor2("rgba (128, 128, 128, 0.17)")),
+    light: toHex(tinycolor2("rgba (221, 221, 221, 0.4)")),
     hcDark: Color.transparent,
     hcLight: Color.transparent,
   },
@@ -1013,9 +1020,9 @@ const keybindingLabelForeground = registerColor(
 const keybindingLabelBorder = registerColor(
   "keybindingLabel.border",
   {
-    dark: tinycolor2("rgba (51, 51, 51, 0.6)").toHexString(),
-    light: tinycolor2("rgba (204, 204, 204, 0.4)").toHexString(),
-    hcDark: tinycolor2("rgb (111, 195, 223)").toHexString(),
+    dark: toHex(tinycolor2("rgba (51, 51, 51, 0.6)")),
+    light: toHex(tinycolor2("rgba (204, 204, 204, 0.4)")),
+    hcDark: toHex(tinycolor2("rgb (111, 195, 223)")),
     hcLight: contrastBorder,
   },
   nls.localize(
@@ -1026,9 +1033,9 @@ const keybindingLabelBorder = registerColor(
 const keybindingLabelBottomBorder = registerColor(
   "keybindingLabel.bottomBorder",
   {
-    dark: tinycolor2("rgba (68, 68, 68, 0.6)").toHexString(),
-    light: tinycolor2("rgba (187, 187, 187, 0.4)").toHexString(),
-    hcDark: tinycolor2("rgba (111, 195, 223)").toHexString(),
+    dark: toHex(tinycolor2("rgba (68, 68, 68, 0.6)")),
+    light: toHex(tinycolor2("rgba (187, 187, 187, 0.4)")),
+    hcDark: toHex(tinycolor2("rgba (111, 195, 223)")),
     hcLight: foreground,
   },
   nls.localize(
@@ -1362,8 +1369,8 @@ const editorLightBulbAutoFixForeground = registerColor(
 /**
  * Diff Editor Colors
  */
-const defaultRemoveColor = tinycolor2("rgba (255, 0, 0, .2)").toHexString();
-const defaultInsertColor = tinycolor2("rgba (155, 185, 85, .2)").toHexString();
+const defaultRemoveColor = toHex(tinycolor2("rgba (255, 0, 0, .2)"));
+const defaultInsertColor = toHex(tinycolor2("rgba (155, 185, 85, .2)"));
 
 const diffInserted = registerColor(
   "diffEditor.insertedTextBackground",
@@ -2340,9 +2347,9 @@ const minimapSelection = registerColor(
 const minimapError = registerColor(
   "minimap.errorHighlight",
   {
-    dark: tinycolor2("rgba (255, 18, 18, 0.7)").toHexString(),
-    light: tinycolor2("rgba (255, 18, 18, 0.7)").toHexString(),
-    hcDark: tinycolor2("rgba (255, 50, 50, 1)").toHexString(),
+    dark: toHex(tinycolor2("rgba (255, 18, 18, 0.7)")),
+    light: toHex(tinycolor2("rgba (255, 18, 18, 0.7)")),
+    hcDark: toHex(tinycolor2("rgba (255, 50, 50, 1)")),
     hcLight: "#B5200D",
   },
   nls.localize("minimapError", "Minimap marker color for errors.")
@@ -2775,8 +2782,8 @@ const editorUnnecessaryCodeBorder = registerColor(
 const editorUnnecessaryCodeOpacity = registerColor(
   "editorUnnecessaryCode.opacity",
   {
-    dark: tinycolor2("#000a").toHexString(),
-    light: tinycolor2("#0007").toHexString(),
+    dark: toHex(tinycolor2("#000a")),
+    light: toHex(tinycolor2("#0007")),
     hcDark: null,
     hcLight: null,
   },
@@ -2803,7 +2810,7 @@ const ghostTextForeground = registerColor(
   "editorGhostText.foreground",
   {
     dark: "#ffffff56",
-    light: tinycolor2("#0007").toHexString(),
+    light: toHex(tinycolor2("#0007")),
     hcDark: null,
     hcLight: null,
   },
@@ -4549,6 +4556,184 @@ export const WINDOW_INACTIVE_BORDER = registerColor('window.inactiveBorder', {
 	hcLight: contrastBorder
 }, localize('windowInactiveBorder', "The color used for the border of the window when it is inactive. Only supported in the macOS and Linux desktop client when using the custom title bar."));
 
+// < --- Terminal --- >
+
+export const TERMINAL_BACKGROUND_COLOR = registerColor('terminal.background', null, localize('terminal.background', 'The background color of the terminal, this allows coloring the terminal differently to the panel.'));
+export const TERMINAL_FOREGROUND_COLOR = registerColor('terminal.foreground', {
+	light: '#333333',
+	dark: '#CCCCCC',
+	hcDark: '#FFFFFF',
+	hcLight: '#292929'
+}, localize('terminal.foreground', 'The foreground color of the terminal.'));
+export const TERMINAL_CURSOR_FOREGROUND_COLOR = registerColor('terminalCursor.foreground', null, localize('terminalCursor.foreground', 'The foreground color of the terminal cursor.'));
+export const TERMINAL_CURSOR_BACKGROUND_COLOR = registerColor('terminalCursor.background', null, localize('terminalCursor.background', 'The background color of the terminal cursor. Allows customizing the color of a character overlapped by a block cursor.'));
+export const TERMINAL_SELECTION_BACKGROUND_COLOR = registerColor('terminal.selectionBackground', {
+	light: editorSelectionBackground,
+	dark: editorSelectionBackground,
+	hcDark: editorSelectionBackground,
+	hcLight: editorSelectionBackground
+}, localize('terminal.selectionBackground', 'The selection background color of the terminal.'));
+export const TERMINAL_SELECTION_FOREGROUND_COLOR = registerColor('terminal.selectionForeground', {
+	light: null,
+	dark: null,
+	hcDark: '#000000',
+	hcLight: '#ffffff'
+}, localize('terminal.selectionForeground', 'The selection foreground color of the terminal. When this is null the selection foreground will be retained and have the minimum contrast ratio feature applied.'));
+
+export const ansiColorMap: { [key: string]: { index: number; defaults: ColorDefaults } } = {
+	'terminal.ansiBlack': {
+		index: 0,
+		defaults: {
+			light: '#000000',
+			dark: '#000000',
+			hcDark: '#000000',
+			hcLight: '#292929'
+		}
+	},
+	'terminal.ansiRed': {
+		index: 1,
+		defaults: {
+			light: '#cd3131',
+			dark: '#cd3131',
+			hcDark: '#cd0000',
+			hcLight: '#cd3131'
+		}
+	},
+	'terminal.ansiGreen': {
+		index: 2,
+		defaults: {
+			light: '#00BC00',
+			dark: '#0DBC79',
+			hcDark: '#00cd00',
+			hcLight: '#00bc00'
+		}
+	},
+	'terminal.ansiYellow': {
+		index: 3,
+		defaults: {
+			light: '#949800',
+			dark: '#e5e510',
+			hcDark: '#cdcd00',
+			hcLight: '#949800'
+		}
+	},
+	'terminal.ansiBlue': {
+		index: 4,
+		defaults: {
+			light: '#0451a5',
+			dark: '#2472c8',
+			hcDark: '#0000ee',
+			hcLight: '#0451a5'
+		}
+	},
+	'terminal.ansiMagenta': {
+		index: 5,
+		defaults: {
+			light: '#bc05bc',
+			dark: '#bc3fbc',
+			hcDark: '#cd00cd',
+			hcLight: '#bc05bc'
+		}
+	},
+	'terminal.ansiCyan': {
+		index: 6,
+		defaults: {
+			light: '#0598bc',
+			dark: '#11a8cd',
+			hcDark: '#00cdcd',
+			hcLight: '#0598bc'
+		}
+	},
+	'terminal.ansiWhite': {
+		index: 7,
+		defaults: {
+			light: '#555555',
+			dark: '#e5e5e5',
+			hcDark: '#e5e5e5',
+			hcLight: '#555555'
+		}
+	},
+	'terminal.ansiBrightBlack': {
+		index: 8,
+		defaults: {
+			light: '#666666',
+			dark: '#666666',
+			hcDark: '#7f7f7f',
+			hcLight: '#666666'
+		}
+	},
+	'terminal.ansiBrightRed': {
+		index: 9,
+		defaults: {
+			light: '#cd3131',
+			dark: '#f14c4c',
+			hcDark: '#ff0000',
+			hcLight: '#cd3131'
+		}
+	},
+	'terminal.ansiBrightGreen': {
+		index: 10,
+		defaults: {
+			light: '#14CE14',
+			dark: '#23d18b',
+			hcDark: '#00ff00',
+			hcLight: '#00bc00'
+		}
+	},
+	'terminal.ansiBrightYellow': {
+		index: 11,
+		defaults: {
+			light: '#b5ba00',
+			dark: '#f5f543',
+			hcDark: '#ffff00',
+			hcLight: '#b5ba00'
+		}
+	},
+	'terminal.ansiBrightBlue': {
+		index: 12,
+		defaults: {
+			light: '#0451a5',
+			dark: '#3b8eea',
+			hcDark: '#5c5cff',
+			hcLight: '#0451a5'
+		}
+	},
+	'terminal.ansiBrightMagenta': {
+		index: 13,
+		defaults: {
+			light: '#bc05bc',
+			dark: '#d670d6',
+			hcDark: '#ff00ff',
+			hcLight: '#bc05bc'
+		}
+	},
+	'terminal.ansiBrightCyan': {
+		index: 14,
+		defaults: {
+			light: '#0598bc',
+			dark: '#29b8db',
+			hcDark: '#00ffff',
+			hcLight: '#0598bc'
+		}
+	},
+	'terminal.ansiBrightWhite': {
+		index: 15,
+		defaults: {
+			light: '#a5a5a5',
+			dark: '#e5e5e5',
+			hcDark: '#ffffff',
+			hcLight: '#a5a5a5'
+		}
+	}
+};
+
+export const ansiColorIdentifiers: ColorIdentifier[] = [];
+for (const id in ansiColorMap) {
+	const entry = ansiColorMap[id];
+	const colorName = id.substring(13);
+	ansiColorIdentifiers[entry.index] = registerColor(id, entry.defaults, localize('terminal.ansiColor', `'${colorName}' ANSI color in the terminal.`));
+}
+
 function darken(colorValue: ColorValue, factor: number): ColorTransform {
   return { op: ColorTransformType.Darken, value: colorValue, factor };
 }
@@ -4594,28 +4779,65 @@ function lessProminent(
 }
 
 function rgba(r: number, g: number, b: number, a: number) {
-  return tinycolor2(`rgba (${r}, ${g}, ${b}, ${a})`).toHexString();
+  return toHex(tinycolor2(`rgba (${r}, ${g}, ${b}, ${a})`));
+}
+
+/**
+ * The colors of a theme on top of the registry defaults for its type
+ */
+export interface ThemeColorContext {
+  readonly type: keyof ColorDefaults;
+  /**
+   * Gets the unresolved value of a color: the theme's own value
+   * if it defines the color, otherwise the registry default.
+   */
+  getValue(id: ColorIdentifier): ColorValue | undefined;
+  /**
+   * @returns true if the theme itself defines the color i.e. the
+   * color doesn't come from the registry defaults
+   */
+  defines(id: ColorIdentifier): boolean;
+}
+
+export function createThemeColorContext(
+  type: keyof ColorDefaults | undefined,
+  colors: Record<string, string> = {}
+): ThemeColorContext {
+  // Guards against unknown types e.g. from untyped callers
+  const scheme: keyof ColorDefaults =
+    type && Object.prototype.hasOwnProperty.call(schemes, type)
+      ? type
+      : "light";
+  const defaults = schemes[scheme];
+  const defines = (id: ColorIdentifier) =>
+    Object.prototype.hasOwnProperty.call(colors, id);
+
+  return {
+    type: scheme,
+    getValue: (id) => (defines(id) ? colors[id] : defaults[id]),
+    defines,
+  };
 }
 
 export function executeTransform(
   transform: ColorTransform,
-  theme: any
+  theme: ThemeColorContext
 ): string | undefined {
   switch (transform.op) {
     case ColorTransformType.Darken: {
       const color = resolveColorValue(transform.value, theme);
       if (!color) return undefined;
-      return tinycolor2(color).darken(transform.factor).toHexString();
+      return toHex(tinycolor2(color).darken(transform.factor));
     }
     case ColorTransformType.Lighten: {
       const color = resolveColorValue(transform.value, theme);
       if (!color) return undefined;
-      return tinycolor2(color).lighten(transform.factor).toHexString();
+      return toHex(tinycolor2(color).lighten(transform.factor));
     }
     case ColorTransformType.Transparent: {
       const color = resolveColorValue(transform.value, theme);
       if (!color) return undefined;
-      return tinycolor2(color).setAlpha(transform.factor).toHexString();
+      return toHex(tinycolor2(color).setAlpha(transform.factor));
     }
     case ColorTransformType.OneOf:
       for (const candidate of transform.values) {
@@ -4640,21 +4862,23 @@ export function executeTransform(
 
       const backgroundColor = resolveColorValue(transform.background, theme);
       if (!backgroundColor) {
-        return tinycolor2(from)
-          .setAlpha(transform.factor * transform.transparency)
-          .toHexString();
+        return toHex(
+          tinycolor2(from).setAlpha(transform.factor * transform.transparency)
+        );
       }
 
       const tFrom = tinycolor2(from);
       const tBg = tinycolor2(backgroundColor);
 
-      return tFrom.getLuminance() < tBg.getLuminance()
-        ? Color.getLighterColor(tFrom, tBg, transform.factor)
-            .setAlpha(transform.transparency)
-            .toHexString()
-        : Color.getDarkerColor(tFrom, tBg, transform.factor)
-            .setAlpha(transform.transparency)
-            .toHexString();
+      return toHex(
+        tFrom.getLuminance() < tBg.getLuminance()
+          ? Color.getLighterColor(tFrom, tBg, transform.factor).setAlpha(
+              transform.transparency
+            )
+          : Color.getDarkerColor(tFrom, tBg, transform.factor).setAlpha(
+              transform.transparency
+            )
+      );
     }
     default:
       throw new Error("Invalid transform");
@@ -4665,16 +4889,16 @@ export function executeTransform(
  * @param colorValue Resolve a color value in the context of a theme
  */
 export function resolveColorValue(
-  colorValue: ColorValue | null,
-  theme: any
+  colorValue: ColorValue | null | undefined,
+  theme: ThemeColorContext
 ): string | undefined {
-  if (colorValue === null) {
+  if (colorValue === null || colorValue === undefined) {
     return undefined;
   } else if (typeof colorValue === "string") {
     if (colorValue[0] === "#") {
       return colorValue;
     }
-    return resolveColorValue(theme[colorValue], theme);
+    return resolveColorValue(theme.getValue(colorValue), theme);
   } else if (typeof colorValue === "object") {
     return executeTransform(colorValue, theme);
   }
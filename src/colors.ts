@@ -0,0 +1,247 @@
+import tinycolor2 from "tinycolor2";
+import { createThemeColorContext, resolveColorValue, toHex } from "./base";
+import { SemanticTokenStyle, TokenColor, VSCodeTheme } from "./types";
+import { omitUndefined } from "./utils";
+
+/**
+ * How translucent colors are handled:
+ * - `keep`: returned as is (e.g. `#RRGGBBAA`) for targets that support alpha
+ * - `composite`: flattened onto the color's background for targets that don't
+ */
+export type AlphaMode = "keep" | "composite";
+
+export interface ThemeColors {
+  readonly type: VSCodeTheme["type"];
+  /**
+   * Resolves a workbench color (e.g. `editor.selectionBackground`) falling
+   * back to the VSCode defaults for the theme type.
+   */
+  get(id: string): string | undefined;
+  /**
+   * Applies the alpha mode to any other color (e.g. a token foreground),
+   * compositing it onto the color `backgroundId` resolves to.
+   */
+  flatten(color: string | undefined, backgroundId?: string): string | undefined;
+}
+
+/**
+ * A theme color that couldn't be parsed & was therefore dropped
+ */
+export interface InvalidColor {
+  /**
+   * Where the color was found e.g. `tokenColors[2].settings.foreground`
+   */
+  path: string;
+  value: unknown;
+}
+
+// Colors drawn on top of something other than the editor
+const BACKGROUND_IDS: Record<string, string> = {
+  "editorGutter.background": "editor.background",
+  "editorWidget.background": "editor.background",
+  "terminal.background": "panel.background",
+  "panel.background": "editor.background",
+};
+
+const BACKGROUND_PREFIXES: [prefix: string, backgroundId: string][] = [
+  ["editorGutter.", "editorGutter.background"],
+  ["editorWidget.", "editorWidget.background"],
+  ["terminal.", "terminal.background"],
+  ["terminalCursor.", "terminal.background"],
+  ["panel.", "panel.background"],
+];
+
+/**
+ * @returns the color `id` is drawn on top of e.g. `editorGutter.background`
+ * for gutter colors & `editor.background` for most others
+ */
+export function getBackgroundId(id: string): string | undefined {
+  if (id === "editor.background") return;
+  if (BACKGROUND_IDS[id]) return BACKGROUND_IDS[id];
+
+  const match = BACKGROUND_PREFIXES.find(([prefix]) => id.startsWith(prefix));
+  return match ? match[1] : "editor.background";
+}
+
+/**
+ * Alpha composites `color` onto the (opaque) `background`.
+ * @returns the opaque result as `#RRGGBB`
+ */
+export function compositeColor(color: string, background: string): string {
+  const foreground = tinycolor2(color).toRgb();
+  const backdrop = tinycolor2(background).toRgb();
+  const blend = (front: number, back: number) =>
+    Math.round(front * foreground.a + back * (1 - foreground.a));
+
+  return tinycolor2({
+    r: blend(foreground.r, backdrop.r),
+    g: blend(foreground.g, backdrop.g),
+    b: blend(foreground.b, backdrop.b),
+  }).toHexString();
+}
+
+// Hex colors need their `#` & named colors other than `transparent`
+// aren't supported
+const COLOR_NOTATION = /^(#|rgba?\(|hsla?\(|transparent$)/i;
+
+/**
+ * Parses a CSS color (`#RGB`, `#RGBA`, `#RRGGBB`, `#RRGGBBAA`, `rgb()`,
+ * `rgba()`, `transparent` etc.) into the canonical lowercase `#RRGGBB`
+ * or, for translucent colors, `#RRGGBBAA`.
+ * @returns undefined if the value is not a valid color
+ */
+export function normalizeColor(value: unknown): string | undefined {
+  if (typeof value !== "string") return;
+  const notation = value.trim();
+  if (!COLOR_NOTATION.test(notation)) return;
+
+  const color = tinycolor2(notation);
+  if (!color.isValid()) return;
+  return toHex(color);
+}
+
+/**
+ * Normalizes every color of the theme (see `normalizeColor`) so providers
+ * always get the same notation. Invalid colors are dropped, just like
+ * VSCode ignores them, & reported.
+ */
+export function normalizeThemeColors(theme: VSCodeTheme): {
+  theme: VSCodeTheme;
+  invalidColors: InvalidColor[];
+} {
+  const invalidColors: InvalidColor[] = [];
+  function normalize(value: unknown, path: string) {
+    // null unsets a color (e.g. one from an included theme)
+    if (value === undefined || value === null) return;
+    const color = normalizeColor(value);
+    if (!color) invalidColors.push({ path, value });
+    return color;
+  }
+
+  const colors: Record<string, string> = {};
+  for (const [id, value] of Object.entries(theme.colors)) {
+    const color = normalize(value, `colors["${id}"]`);
+    if (color) colors[id] = color;
+  }
+
+  const tokenColors = theme.tokenColors.map(
+    (rule, index): TokenColor =>
+      rule.settings
+        ? {
+            ...rule,
+            settings: omitUndefined({
+              ...rule.settings,
+              foreground: normalize(
+                rule.settings.foreground,
+                `tokenColors[${index}].settings.foreground`
+              ),
+              background: normalize(
+                rule.settings.background,
+                `tokenColors[${index}].settings.background`
+              ),
+            }),
+          }
+        : rule
+  );
+
+  let semanticTokenColors: Record<string, SemanticTokenStyle> | undefined;
+  if (theme.semanticTokenColors) {
+    semanticTokenColors = {};
+    for (const [selector, style] of Object.entries(theme.semanticTokenColors)) {
+      const path = `semanticTokenColors["${selector}"]`;
+      if (typeof style === "string") {
+        const color = normalize(style, path);
+        if (color) semanticTokenColors[selector] = color;
+      } else {
+        semanticTokenColors[selector] = omitUndefined({
+          ...style,
+          foreground: normalize(style.foreground, `${path}.foreground`),
+        });
+      }
+    }
+  }
+
+  return {
+    theme: { ...theme, colors, tokenColors, semanticTokenColors },
+    invalidColors,
+  };
+}
+
+// Levels of the 6x6x6 color cube of the xterm 256 color palette
+const XTERM_CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Finds the closest color of the xterm 256 color palette. The 16 system
+ * colors are skipped since every terminal defines them differently.
+ * @returns the color index (16 - 255)
+ */
+export function toXterm256(color: string): number {
+  const { r, g, b } = tinycolor2(color).toRgb();
+  const distance = (r2: number, g2: number, b2: number) =>
+    (r - r2) ** 2 + (g - g2) ** 2 + (b - b2) ** 2;
+  const nearestLevel = (value: number) =>
+    XTERM_CUBE_LEVELS.reduce(
+      (nearest, level, index) =>
+        Math.abs(level - value) < Math.abs(XTERM_CUBE_LEVELS[nearest] - value)
+          ? index
+          : nearest,
+      0
+    );
+
+  const [ri, gi, bi] = [r, g, b].map(nearestLevel);
+  const cubeIndex = 16 + 36 * ri + 6 * gi + bi;
+  const cubeDistance = distance(
+    XTERM_CUBE_LEVELS[ri],
+    XTERM_CUBE_LEVELS[gi],
+    XTERM_CUBE_LEVELS[bi]
+  );
+
+  // The grayscale ramp goes from 8 to 238 in steps of 10
+  const grayStep = Math.min(
+    23,
+    Math.max(0, Math.round(((r + g + b) / 3 - 8) / 10))
+  );
+  const gray = 8 + grayStep * 10;
+  const grayDistance = distance(gray, gray, gray);
+
+  return grayDistance < cubeDistance ? 232 + grayStep : cubeIndex;
+}
+
+export function isTranslucent(color: string) {
+  return tinycolor2(color).getAlpha() < 1;
+}
+
+export function createThemeColors(
+  theme: Pick<VSCodeTheme, "type" | "colors">,
+  alpha: AlphaMode
+): ThemeColors {
+  const context = createThemeColorContext(theme.type, theme.colors);
+  const isDark = context.type === "dark" || context.type === "hcDark";
+
+  // The opaque color `id` is drawn on
+  function getBackground(id: string | undefined): string {
+    if (!id) return isDark ? "#000000" : "#ffffff";
+
+    const color = resolveColorValue(id, context);
+    if (!color) return getBackground(getBackgroundId(id));
+    return isTranslucent(color)
+      ? compositeColor(color, getBackground(getBackgroundId(id)))
+      : color;
+  }
+
+  function flatten(color: string | undefined, backgroundId?: string) {
+    if (!color || alpha === "keep" || !isTranslucent(color)) return color;
+    return compositeColor(color, getBackground(backgroundId));
+  }
+
+  return {
+    type: context.type,
+    get: (id) =>
+      flatten(
+        normalizeColor(resolveColorValue(id, context)),
+        getBackgroundId(id)
+      ),
+    flatten: (color, backgroundId = "editor.background") =>
+      flatten(color, backgroundId),
+  };
+}
@@ -0,0 +1,47 @@
+import { readFile } from "fs/promises";
+import { basename, dirname, extname, join } from "path";
+import { parseVSIX, readExtensionThemes, ThemeSelector } from "./theme-finder";
+import { resolveTheme } from "./theme-resolver";
+import { ExtensionFileReader, VSCodeTheme } from "./types";
+
+export async function loadThemeFromVSIX(
+  vsixPath: string,
+  selectThemes?: ThemeSelector
+): Promise<VSCodeTheme[] | undefined> {
+  console.info("Reading", vsixPath);
+
+  return parseVSIX(new Uint8Array(await readFile(vsixPath)), selectThemes);
+}
+
+export async function loadThemeFromDirectory(
+  directory: string,
+  selectThemes?: ThemeSelector
+): Promise<VSCodeTheme[] | undefined> {
+  console.info("Reading", directory);
+
+  return readExtensionThemes(createFileReader(directory), selectThemes);
+}
+
+export async function loadThemeFromFile(
+  themePath: string
+): Promise<VSCodeTheme> {
+  console.info("Reading", themePath);
+
+  const theme = await resolveTheme(
+    createFileReader(dirname(themePath)),
+    basename(themePath)
+  );
+  if (!theme.name) theme.name = basename(themePath, extname(themePath));
+  return theme;
+}
+
+function createFileReader(root: string): ExtensionFileReader {
+  return async (path) => {
+    try {
+      return new Uint8Array(await readFile(join(root, path)));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw e;
+    }
+  };
+}
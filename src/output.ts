@@ -0,0 +1,84 @@
+import { mkdir, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { VSCodeTheme } from "./types";
+
+export const DEFAULT_FILENAME_TEMPLATE = "{name}.{ext}";
+
+const TEMPLATE_VARIABLES = ["name", "ext", "extension", "version", "provider"];
+
+export type OverwriteMode = "error" | "force" | "skip";
+
+/**
+ * Builds the output path for a converted theme from a filename template.
+ * Supported variables: {name}, {ext}, {extension}, {version} & {provider}.
+ * `/` in the template creates sub directories.
+ */
+export function getOutputPath(
+  template: string,
+  theme: VSCodeTheme,
+  provider: { id: string; extension: string }
+) {
+  const variables: Record<string, string | undefined> = {
+    name: theme.name,
+    ext: provider.extension,
+    extension: theme.source
+      ? `${theme.source.namespace}.${theme.source.name}`
+      : undefined,
+    version: theme.source?.version,
+    provider: provider.id,
+  };
+
+  const path = template.replace(/\{(\w+)\}/g, (match, variable: string) => {
+    if (!TEMPLATE_VARIABLES.includes(variable))
+      throw new Error(
+        `Unknown variable ${match} in filename template. Must be one of ${TEMPLATE_VARIABLES.map(
+          (v) => `{${v}}`
+        ).join(", ")}.`
+      );
+    const value = variables[variable];
+    if (variable === "name" && !value)
+      throw new Error(
+        `Theme has no name to build the filename ${template} from.`
+      );
+    return value ? sanitizeFileName(value) : "";
+  });
+
+  // Segments with missing variables end up empty so we drop them
+  return join(...path.split("/").filter((segment) => !!segment));
+}
+
+/**
+ * Makes a string safe to use as a single path segment.
+ * @throws if nothing is left of the name (e.g. a theme without a name)
+ */
+export function sanitizeFileName(name: string | undefined) {
+  const fileName = (name || "")
+    .replace(/[/\\:*?"<>|\x00-\x1f]/g, "-")
+    .replace(/\s+/g, "-")
+    .replace(/^\.+/, "")
+    .trim();
+  if (!fileName)
+    throw new Error(`Cannot build a file name from ${JSON.stringify(name)}.`);
+  return fileName;
+}
+
+/**
+ * @returns false if the file already exists & was skipped
+ */
+export async function writeOutputFile(
+  path: string,
+  data: string,
+  overwrite: OverwriteMode
+): Promise<boolean> {
+  await mkdir(dirname(path), { recursive: true });
+  try {
+    await writeFile(path, data, { flag: overwrite === "force" ? "w" : "wx" });
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e;
+    if (overwrite === "skip") return false;
+    throw new Error(
+      `${path} already exists. Use --force to overwrite it or --skip-existing to skip it.`
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { createInterface } from "readline";
+import { Extension, Theme } from "./theme-finder";
+
+export interface IPicker {
+  pickExtension(extensions: Extension[]): Promise<Extension>;
+  pickThemes(themes: Theme[]): Promise<Theme[]>;
+  close(): void;
+}
+
+/**
+ * Creates an interactive picker reading the choices from stdin. All
+ * prompts share one readline interface so lines piped in ahead of a
+ * prompt aren't lost. Must be closed once picking is done.
+ */
+export function createPicker(): IPicker {
+  const rl = createInterface({ input: process.stdin });
+  const lines = rl[Symbol.asyncIterator]();
+
+  /**
+   * Keeps asking until the user enters valid 1-based choices.
+   * @returns the zero-based indices of the selected choices
+   */
+  async function askForChoices(
+    question: string,
+    count: number,
+    multiple: boolean
+  ): Promise<number[]> {
+    for (;;) {
+      process.stdout.write(question);
+      const { value, done } = await lines.next();
+      if (done) throw new Error("No choice was made.");
+
+      const answer = value.trim();
+      if (!answer && multiple) return [];
+
+      const choices = answer.split(",").map((choice) => Number(choice.trim()));
+      const isValid =
+        (multiple || choices.length === 1) &&
+        choices.every((c) => Number.isInteger(c) && c >= 1 && c <= count);
+      if (isValid) return choices.map((c) => c - 1);
+
+      console.error("Invalid choice.");
+    }
+  }
+
+  return {
+    async pickExtension(extensions) {
+      extensions.forEach((extension, index) => {
+        const rating =
+          extension.averageRating !== undefined
+            ? `★ ${extension.averageRating.toFixed(1)}`
+            : "no rating";
+        console.log(
+          `${index + 1}. ${extension.displayName || extension.name} (${
+            extension.namespace
+          }) - ${extension.downloadCount} downloads, ${rating}`
+        );
+      });
+
+      const [index] = await askForChoices(
+        `Select an extension [1-${extensions.length}]: `,
+        extensions.length,
+        false
+      );
+      return extensions[index];
+    },
+
+    async pickThemes(themes) {
+      if (themes.length === 1) return themes;
+
+      themes.forEach((theme, index) => {
+        console.log(`${index + 1}. ${theme.label} (${theme.uiTheme})`);
+      });
+
+      const indices = await askForChoices(
+        `Select themes [1-${themes.length}, comma separated, empty for all]: `,
+        themes.length,
+        true
+      );
+      if (!indices.length) return themes;
+      return indices.map((index) => themes[index]);
+    },
+
+    close() {
+      rl.close();
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { getTerminalPalette } from "../terminal";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+export default function convert(theme: VSCodeTheme): string {
+  const palette = getTerminalPalette(theme);
+
+  const sections: Record<string, Record<string, string>> = {
+    "colors.primary": {
+      foreground: palette.foreground,
+      background: palette.background,
+    },
+    "colors.cursor": {
+      text: palette.cursorText,
+      cursor: palette.cursor,
+    },
+    "colors.selection": {
+      // Keeps the text colors of the selected cells
+      text: palette.selectionForeground || "CellForeground",
+      background: palette.selectionBackground,
+    },
+    "colors.normal": palette.normal,
+    "colors.bright": palette.bright,
+  };
+
+  const toml = [
+    `# ${[theme.name, formatSource(theme.source)]
+      .filter((a) => !!a)
+      .join(" - ")}`,
+    ...Object.entries(sections).map(([name, values]) =>
+      [
+        `[${name}]`,
+        ...Object.entries(values).map(
+          ([key, value]) => `${key} = ${JSON.stringify(value)}`
+        ),
+      ].join("\n")
+    ),
+  ].join("\n\n");
+  return `${toml}\n`;
+}
@@ -1,13 +1,25 @@
-import { schemes, resolveColorValue } from "../base";
+import { createThemeColors } from "../colors";
 import { VSCodeTheme } from "../types";
+import { parseScopeSelector } from "../scopes";
+import { getFontStyle } from "../token-style";
+import { formatSource } from "../utils";
+
+// Doctave only has light & dark modes
+const CSS_CLASSES: Record<VSCodeTheme["type"], "light" | "dark"> = {
+  light: "light",
+  dark: "dark",
+  hcDark: "dark",
+  hcLight: "light",
+};
 
 export default function convert(theme: VSCodeTheme): string {
   const type = theme.type || "light";
-  const baseTheme = schemes[type];
-  const themeColors = { ...baseTheme, ...theme.colors };
+  // CSS supports alpha so translucent colors are kept as is
+  const themeColors = createThemeColors(theme, "keep");
+  const cssClass = CSS_CLASSES[type] || "light";
 
   function getColor(id: string) {
-    return resolveColorValue(id, themeColors);
+    return themeColors.get(id);
   }
 
   const primary =
@@ -34,7 +46,10 @@ export default function convert(theme: VSCodeTheme): string {
     "--input-bg": getColor("input.background") || "transparent",
     "--input-fg": getColor("input.foreground") || getColor("editor.foreground"),
     "--input-border":
-      getColor("input.border") || getColor("focusBorder") || "transparent",
+      getColor("input.border") ||
+      getColor("contrastBorder") ||
+      getColor("focusBorder") ||
+      "transparent",
     "--input-placeholder": getColor("input.placeholderForeground"),
 
     "--hr": getColor("menu.separatorBackground"),
@@ -53,37 +68,42 @@ export default function convert(theme: VSCodeTheme): string {
     "--hover-color": getColor(""),
     "--header-fg": primary,
 
-    "--border-color": getColor("input.border") || getColor("dropdown.border"),
+    "--border-color":
+      getColor("input.border") ||
+      getColor("dropdown.border") ||
+      getColor("contrastBorder"),
     "--fg": getColor("editor.foreground"),
     "--fg-dim": getColor("editorHint.foreground"),
     "--fg-dimmer": getColor("editorCodeLens.foreground"),
   };
 
   const codeblockCss = theme.tokenColors
+    .filter((color) => !!color.scope && !!color.settings)
     .map((color) => {
-      const scopes =
-        typeof color.scope === "string" ? [color.scope] : color.scope;
-      const selector = scopes
-        .map((scope) => `html.${type} pre .${scope.replace(/\.(\d+)/g, "_$1")}`)
+      // CSS has no way to express exclusions so they are ignored
+      const selector = parseScopeSelector(color.scope)
+        .map(
+          ({ path }) =>
+            `html.${cssClass} pre ${path
+              .map((scope) => `.${scope.replace(/\.(\d+)/g, "_$1")}`)
+              .join(" ")}`
+        )
         .join(",");
       const properties = [];
-      for (const key in color.settings) {
-        const value = color.settings[key as keyof typeof color.settings];
-        if (!value) continue;
-        switch (key === "fontStyle" ? value : key) {
-          case "foreground":
-            properties.push(`color: ${value};`);
-            break;
-          case "bold":
-            properties.push(`font-weight: bold;`);
-            break;
-          case "italic":
-            properties.push(`font-style: italic;`);
-            break;
-          case "underline":
-            properties.push(`text-decoration-line: underline;`);
-            break;
-        }
+      if (color.settings.foreground)
+        properties.push(`color: ${color.settings.foreground};`);
+
+      const fontStyle = getFontStyle(color.settings);
+      if (fontStyle) {
+        const decorations = [
+          fontStyle.underline && "underline",
+          fontStyle.strikethrough && "line-through",
+        ].filter((a) => !!a);
+        properties.push(
+          `font-weight: ${fontStyle.bold ? "bold" : "normal"};`,
+          `font-style: ${fontStyle.italic ? "italic" : "normal"};`,
+          `text-decoration-line: ${decorations.join(" ") || "none"};`
+        );
       }
       return `${selector} {
         ${properties.join("\n")}
@@ -94,8 +114,10 @@ export default function convert(theme: VSCodeTheme): string {
   const keys = Object.keys(doctaveTheme);
 
   return [
-    `/* ${theme.name} */`,
-    `html.${type} {
+    `/* ${[theme.name, formatSource(theme.source)]
+      .filter((a) => !!a)
+      .join(" - ")} */`,
+    `html.${cssClass} {
       ${keys
         .filter((key) => !!doctaveTheme[key])
         .map((key) => `${key}: ${doctaveTheme[key]};`)
@@ -0,0 +1,213 @@
+import { createThemeColors } from "../colors";
+import { sanitizeFileName } from "../output";
+import { createTokenStyleResolver, TokenStyle } from "../token-style";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+type Face = Omit<TokenStyle, "foreground" | "background"> & {
+  foreground?: string;
+  background?: string;
+  extend?: boolean;
+};
+
+// Emacs face -> TextMate scopes to try in order
+const FONT_LOCK_FACES: [face: string, scopes: string[]][] = [
+  ["font-lock-comment-face", ["comment"]],
+  [
+    "font-lock-comment-delimiter-face",
+    ["punctuation.definition.comment", "comment"],
+  ],
+  ["font-lock-doc-face", ["comment.block.documentation", "comment"]],
+  ["font-lock-string-face", ["string"]],
+  ["font-lock-keyword-face", ["keyword", "storage.type"]],
+  ["font-lock-builtin-face", ["support.function", "support"]],
+  ["font-lock-function-name-face", ["entity.name.function"]],
+  ["font-lock-variable-name-face", ["variable", "entity.name.variable"]],
+  ["font-lock-type-face", ["entity.name.type", "support.type"]],
+  ["font-lock-constant-face", ["constant.language", "constant"]],
+  ["font-lock-preprocessor-face", ["meta.preprocessor", "keyword.control"]],
+  [
+    "font-lock-negation-char-face",
+    ["keyword.operator.logical", "keyword.operator"],
+  ],
+  ["font-lock-warning-face", ["invalid", "markup.error"]],
+  ["font-lock-number-face", ["constant.numeric"]],
+  ["font-lock-operator-face", ["keyword.operator"]],
+  ["font-lock-escape-face", ["constant.character.escape"]],
+  ["font-lock-regexp-grouping-backslash", ["constant.character.escape"]],
+  ["font-lock-regexp-grouping-construct", ["string.regexp"]],
+  ["font-lock-property-name-face", ["variable.other.property"]],
+  ["font-lock-bracket-face", ["punctuation.section", "punctuation"]],
+  ["font-lock-delimiter-face", ["punctuation.separator", "punctuation"]],
+  ["font-lock-punctuation-face", ["punctuation"]],
+];
+
+/**
+ * Converts the theme to an Emacs `deftheme`. Emacs has no alpha so
+ * translucent colors are composited onto their background.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  const themeColors = createThemeColors(theme, "composite");
+  const getColor = themeColors.get;
+  const resolveTokenStyle = createTokenStyleResolver(theme.tokenColors);
+
+  const foreground = getColor("editor.foreground");
+  const background = getColor("editor.background");
+
+  function fromTokenStyle(style: Omit<TokenStyle, "background">): Face {
+    return { ...style, foreground: themeColors.flatten(style.foreground) };
+  }
+
+  function getFontLockFace(scopes: string[]): Face | undefined {
+    for (const scope of scopes) {
+      const style = resolveTokenStyle(scope);
+      if (style?.foreground) return fromTokenStyle(style);
+    }
+  }
+
+  const faces: Record<string, Face> = {
+    default: { foreground, background },
+    cursor: { background: getColor("editorCursor.foreground") },
+    region: {
+      foreground: getColor("editor.selectionForeground"),
+      background: getColor("editor.selectionBackground"),
+      extend: true,
+    },
+    "hl-line": {
+      background: getColor("editor.lineHighlightBackground"),
+      extend: true,
+    },
+    fringe: { background: getColor("editorGutter.background") },
+    "line-number": {
+      foreground: getColor("editorLineNumber.foreground"),
+      background: getColor("editorGutter.background"),
+    },
+    "line-number-current-line": {
+      foreground: getColor("editorLineNumber.activeForeground"),
+      background: getColor("editorGutter.background"),
+    },
+    "mode-line": {
+      foreground: getColor("statusBar.foreground"),
+      background: getColor("statusBar.background"),
+    },
+    "mode-line-inactive": {
+      foreground: getColor("tab.inactiveForeground"),
+      background: getColor("editorGroupHeader.tabsBackground"),
+    },
+    "vertical-border": { foreground: getColor("editorGroup.border") },
+    "minibuffer-prompt": { foreground: getColor("textLink.foreground") },
+    link: { foreground: getColor("textLink.foreground"), underline: true },
+    isearch: {
+      foreground,
+      background: getColor("editor.findMatchBackground"),
+    },
+    "lazy-highlight": {
+      background: getColor("editor.findMatchHighlightBackground"),
+    },
+    "isearch-fail": { foreground: getColor("errorForeground") },
+    "show-paren-match": {
+      background: getColor("editorBracketMatch.background"),
+    },
+    "show-paren-mismatch": {
+      foreground: background,
+      background: getColor("editorError.foreground"),
+    },
+    error: { foreground: getColor("editorError.foreground") },
+    warning: { foreground: getColor("editorWarning.foreground") },
+    success: { foreground: getColor("editorGutter.addedBackground") },
+    "diff-added": {
+      background: getColor("diffEditor.insertedTextBackground"),
+      extend: true,
+    },
+    "diff-removed": {
+      background: getColor("diffEditor.removedTextBackground"),
+      extend: true,
+    },
+    "diff-changed": {
+      background: getColor("editor.lineHighlightBackground"),
+      extend: true,
+    },
+    "diff-indicator-added": {
+      foreground: getColor("editorGutter.addedBackground"),
+    },
+    "diff-indicator-removed": {
+      foreground: getColor("editorGutter.deletedBackground"),
+    },
+    "diff-indicator-changed": {
+      foreground: getColor("editorGutter.modifiedBackground"),
+    },
+    "diff-header": {
+      background: getColor("editorGroupHeader.tabsBackground"),
+    },
+    "diff-file-header": {
+      background: getColor("editorGroupHeader.tabsBackground"),
+      bold: true,
+    },
+  };
+  // Faces no rule styles keep Emacs' defaults
+  for (const [name, scopes] of FONT_LOCK_FACES) {
+    const face = getFontLockFace(scopes);
+    if (face) faces[name] = face;
+  }
+
+  // Throws for themes without a name before anything is built from it
+  const slug = sanitizeFileName(theme.name);
+  const name = toLispSymbol(slug);
+  const fileName = `${slug}-theme.el`;
+  return [
+    `;;; ${fileName} --- ${theme.name}  -*- lexical-binding: t -*-`,
+    ...(theme.source ? [`;; Source: ${formatSource(theme.source)}`] : []),
+    "",
+    ";;; Code:",
+    "",
+    `(deftheme ${name} ${toLispString(theme.name)})`,
+    "",
+    "(custom-theme-set-faces",
+    ` '${name}`,
+    ...Object.entries(faces)
+      // An empty spec would reset the face instead of styling it
+      .filter(([, face]) => !!toFaceAttributes({ ...face, extend: false }))
+      .map(
+        ([face, attributes]) =>
+          ` '(${face} ((t (${toFaceAttributes(attributes)}))))`
+      ),
+    " )",
+    "",
+    ";;;###autoload",
+    "(when load-file-name",
+    "  (add-to-list 'custom-theme-load-path",
+    "               (file-name-as-directory (file-name-directory load-file-name))))",
+    "",
+    `(provide-theme '${name})`,
+    "",
+    `;;; ${fileName} ends here`,
+    "",
+  ].join("\n");
+}
+
+function toFaceAttributes(face: Face) {
+  const attributes: string[] = [];
+  if (face.foreground)
+    attributes.push(`:foreground ${toLispString(face.foreground)}`);
+  if (face.background)
+    attributes.push(`:background ${toLispString(face.background)}`);
+  if (face.bold !== undefined)
+    attributes.push(`:weight ${face.bold ? "bold" : "normal"}`);
+  if (face.italic !== undefined)
+    attributes.push(`:slant ${face.italic ? "italic" : "normal"}`);
+  if (face.underline !== undefined)
+    attributes.push(`:underline ${face.underline ? "t" : "nil"}`);
+  if (face.strikethrough !== undefined)
+    attributes.push(`:strike-through ${face.strikethrough ? "t" : "nil"}`);
+  if (face.extend) attributes.push(":extend t");
+  return attributes.join(" ");
+}
+
+function toLispString(text: string) {
+  return `"${text.replace(/[\\"]/g, "\\$&")}"`;
+}
+
+// Characters with a special meaning in Lisp need escaping in symbols
+function toLispSymbol(text: string) {
+  return text.replace(/[()[\]'`,;#\\]/g, "\\$&");
+}
@@ -1,15 +1,69 @@
 import { VSCodeTheme } from "../types";
+import alacritty from "./alacritty";
 import docgen from "./docgen";
+import emacs from "./emacs";
+import iterm from "./iterm";
 import kate from "./kate";
+import kitty from "./kitty";
+import neovim from "./neovim";
+import sublime from "./sublime";
+import tmtheme from "./tmtheme";
+import vim from "./vim";
+import wezterm from "./wezterm";
+import windowsTerminal from "./windows-terminal";
 
 interface IThemeProvider {
   id: string;
+  /**
+   * File extension of the converted theme (without the leading dot)
+   */
+  extension: string;
+  /**
+   * Default filename template if it's not the DEFAULT_FILENAME_TEMPLATE
+   * e.g. because the target expects the theme in a sub directory
+   */
+  filename?: string;
   convert(theme: VSCodeTheme): string;
 }
 
 const providers: IThemeProvider[] = [
-  { id: "docgen", convert: docgen },
-  { id: "kate", convert: kate },
+  { id: "docgen", extension: "css", convert: docgen },
+  { id: "kate", extension: "theme", convert: kate },
+  {
+    id: "alacritty",
+    extension: "toml",
+    filename: "themes/{name}.{ext}",
+    convert: alacritty,
+  },
+  { id: "kitty", extension: "conf", convert: kitty },
+  {
+    id: "wezterm",
+    extension: "toml",
+    filename: "colors/{name}.{ext}",
+    convert: wezterm,
+  },
+  { id: "windows-terminal", extension: "json", convert: windowsTerminal },
+  { id: "iterm", extension: "itermcolors", convert: iterm },
+  {
+    id: "vim",
+    extension: "vim",
+    filename: "colors/{name}.{ext}",
+    convert: vim,
+  },
+  {
+    id: "neovim",
+    extension: "lua",
+    filename: "colors/{name}.{ext}",
+    convert: neovim,
+  },
+  {
+    id: "emacs",
+    extension: "el",
+    filename: "{name}-theme.{ext}",
+    convert: emacs,
+  },
+  { id: "sublime", extension: "sublime-color-scheme", convert: sublime },
+  { id: "tmtheme", extension: "tmTheme", convert: tmtheme },
 ];
 
 export function findProvider(id: string): IThemeProvider | undefined {
@@ -0,0 +1,43 @@
+import tinycolor2 from "tinycolor2";
+import { getTerminalPalette } from "../terminal";
+import { buildPlist, PlistValue } from "../tmtheme";
+import { VSCodeTheme } from "../types";
+
+export default function convert(theme: VSCodeTheme): string {
+  const palette = getTerminalPalette(theme);
+
+  const colors: Record<string, string | undefined> = {
+    "Background Color": palette.background,
+    // VSCode has no separate bold color
+    "Bold Color": palette.foreground,
+    "Cursor Color": palette.cursor,
+    "Cursor Text Color": palette.cursorText,
+    "Foreground Color": palette.foreground,
+    "Selected Text Color": palette.selectionForeground,
+    "Selection Color": palette.selectionBackground,
+  };
+  palette.ansi.forEach(
+    (color, index) => (colors[`Ansi ${index} Color`] = color)
+  );
+
+  const plist: Record<string, PlistValue> = {};
+  for (const key of Object.keys(colors).sort()) {
+    const color = colors[key];
+    if (color) plist[key] = toITermColor(color);
+  }
+  return buildPlist(plist);
+}
+
+/**
+ * iTerm2 stores colors as sRGB components between 0 & 1
+ */
+function toITermColor(color: string): PlistValue {
+  const { r, g, b, a } = tinycolor2(color).toRgb();
+  return {
+    "Alpha Component": a,
+    "Blue Component": b / 255,
+    "Color Space": "sRGB",
+    "Green Component": g / 255,
+    "Red Component": r / 255,
+  };
+}
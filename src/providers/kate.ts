@@ -1,6 +1,9 @@
-import { schemes, resolveColorValue } from "../base";
+import tinycolor2 from "tinycolor2";
+import { createThemeColors, isTranslucent } from "../colors";
 import { VSCodeTheme } from "../types";
-import { matchScope } from "../utils";
+import { createSemanticTokenStyleResolver } from "../semantic-tokens";
+import { createTokenStyleResolver, TokenStyle } from "../token-style";
+import { formatSource, omitUndefined } from "../utils";
 
 type EditorColors =
   | "BackgroundColor"
@@ -67,8 +70,8 @@ type TextStyles =
 
 type KateTextStyle = {
   bold?: boolean;
-  "selected-text-color": string;
-  "text-color": string;
+  "selected-text-color"?: string;
+  "text-color"?: string;
   "background-color"?: string;
   "selected-background-color"?: string;
   italic?: boolean;
@@ -80,6 +83,7 @@ type KateTheme = {
   metadata: {
     name: string;
     revision: number;
+    source?: string;
   };
   "editor-colors": Record<EditorColors, string | undefined>;
   "text-styles": Record<TextStyles, KateTextStyle | undefined>;
@@ -87,7 +91,7 @@ type KateTheme = {
 };
 
 const KATE_DEFAULT_COLORS: Record<
-  "light" | "dark",
+  VSCodeTheme["type"],
   KateTheme["editor-colors"]
 > = {
   light: {
@@ -150,85 +154,164 @@ const KATE_DEFAULT_COLORS: Record<
     TemplateReadOnlyPlaceholder: "#4d1f24",
     WordWrapMarker: "#3a3f44",
   },
+  hcDark: {
+    BackgroundColor: "#000000",
+    CodeFolding: "#0c3a55",
+    BracketMatching: "#006400",
+    CurrentLine: "#000000",
+    IconBorder: "#000000",
+    IndentationLine: "#ffffff",
+    LineNumbers: "#ffffff",
+    CurrentLineNumber: "#f38518",
+    MarkBookmark: "#3794ff",
+    MarkBreakpointActive: "#e51400",
+    MarkBreakpointReached: "#ffcc00",
+    MarkBreakpointDisabled: "#848484",
+    MarkExecution: "#ffffff",
+    MarkWarning: "#ffcc00",
+    MarkError: "#ff3232",
+    ModifiedLines: "#1b81a8",
+    ReplaceHighlight: "#f38518",
+    SavedLines: "#487e02",
+    SearchHighlight: "#6fc3df",
+    TextSelection: "#f3f518",
+    Separator: "#6fc3df",
+    SpellChecking: "#ff3232",
+    TabMarker: "#7c7c7c",
+    TemplateBackground: "#000000",
+    TemplatePlaceholder: "#0c3a55",
+    TemplateFocusedPlaceholder: "#1b81a8",
+    TemplateReadOnlyPlaceholder: "#5a1d1d",
+    WordWrapMarker: "#6fc3df",
+  },
+  hcLight: {
+    BackgroundColor: "#ffffff",
+    CodeFolding: "#cce7f5",
+    BracketMatching: "#cce7f5",
+    CurrentLine: "#ffffff",
+    IconBorder: "#ffffff",
+    IndentationLine: "#292929",
+    LineNumbers: "#292929",
+    CurrentLineNumber: "#006bbd",
+    MarkBookmark: "#0f4a85",
+    MarkBreakpointActive: "#b5200d",
+    MarkBreakpointReached: "#895503",
+    MarkBreakpointDisabled: "#616161",
+    MarkExecution: "#292929",
+    MarkWarning: "#895503",
+    MarkError: "#b5200d",
+    ModifiedLines: "#2090d3",
+    ReplaceHighlight: "#0f4a85",
+    SavedLines: "#48985d",
+    SearchHighlight: "#006bbd",
+    TextSelection: "#0f4a85",
+    Separator: "#0f4a85",
+    SpellChecking: "#b5200d",
+    TabMarker: "#7c7c7c",
+    TemplateBackground: "#ffffff",
+    TemplatePlaceholder: "#cce7f5",
+    TemplateFocusedPlaceholder: "#2090d3",
+    TemplateReadOnlyPlaceholder: "#f6e6e6",
+    WordWrapMarker: "#0f4a85",
+  },
 };
 
 export default function convert(theme: VSCodeTheme): string {
-  const baseTheme = schemes[theme.type || "light"];
-  const themeColors = { ...baseTheme, ...theme.colors };
+  // Kate supports alpha so translucent colors are kept as is
+  const themeColors = createThemeColors(theme, "keep");
 
   function getColor(id: string) {
-    const color = resolveColorValue(id, themeColors);
-    if (!color) return;
-    // Qt takes alpha hex colors as AARRGGBB instead of RRGGBBAA
-    if (color.length === 9) {
-      const alpha = color.slice(-2);
-      const nonAlpha = color.slice(1, -2);
-      return `#${alpha}${nonAlpha}`;
-    }
-
-    return color;
+    return toQtColor(themeColors.get(id));
   }
 
+  const resolveTokenStyle = createTokenStyleResolver(theme.tokenColors);
+
+  const resolveSemanticTokenStyle = createSemanticTokenStyleResolver(theme);
+
   function toKateStyle(id: string): KateTextStyle | undefined {
-    const style = theme.tokenColors.find((a) => matchScope(a.scope, id));
+    const style = resolveTokenStyle(id);
 
     if (!style && id !== "variable") return toKateStyle("variable");
     if (!style) return;
 
-    const isBold = style.settings.bold || style.settings.fontStyle === "bold";
-    const isItalic =
-      style.settings.italic || style.settings.fontStyle === "italic";
-    const isUnderline =
-      style.settings.underline || style.settings.fontStyle === "underline";
+    return fromTokenStyle(style);
+  }
+
+  /**
+   * Styles using the semantic token colors (which map better to some Kate
+   * styles) falling back to the TextMate scope if there are none.
+   */
+  function toKateSemanticStyle(
+    token: string,
+    fallbackScope: string
+  ): KateTextStyle | undefined {
+    const style = resolveSemanticTokenStyle(token);
+    if (!style) return toKateStyle(fallbackScope);
+
+    return fromTokenStyle(style);
+  }
+
+  // High contrast themes (only) define a selection foreground
+  const selectionForeground = getColor("editor.selectionForeground");
+
+  function fromTokenStyle(style: TokenStyle): KateTextStyle {
+    const foreground =
+      toQtColor(style.foreground) || getColor("editor.foreground");
     return {
-      "text-color": style.settings.foreground,
-      "selected-text-color": style.settings.foreground,
-      bold: isBold || undefined,
-      italic: isItalic || undefined,
-      underline: isUnderline || undefined,
+      "text-color": foreground,
+      "selected-text-color": selectionForeground || foreground,
+      bold: style.bold || undefined,
+      italic: style.italic || undefined,
+      underline: style.underline || undefined,
+      "strike-through": style.strikethrough || undefined,
     };
   }
 
   const defaultKateTheme =
-    theme.type === "dark"
-      ? KATE_DEFAULT_COLORS.dark
-      : KATE_DEFAULT_COLORS.light;
+    KATE_DEFAULT_COLORS[theme.type] || KATE_DEFAULT_COLORS.light;
+
+  const editorColors: Partial<KateTheme["editor-colors"]> = {
+    BackgroundColor: getColor("editor.background"),
+    IndentationLine: getColor("editorIndentGuide.background"),
+    TextSelection: getColor("editor.selectionBackground"),
+    LineNumbers: getColor("editorLineNumber.foreground"),
+    CurrentLineNumber: getColor("editorLineNumber.activeForeground"),
+    CurrentLine: getColor("editor.lineHighlightBackground"),
+    SearchHighlight: getColor("editor.findMatchHighlightBackground"),
+    ReplaceHighlight: getColor("editor.findMatchBackground"),
+    BracketMatching: getColor("editorBracketMatch.background"),
+    CodeFolding: getColor("editor.foldBackground"),
+    SpellChecking: getColor("editorError.foreground"),
+    ModifiedLines:
+      getColor("editorGutter.modifiedBackground") ||
+      getColor("editorOverviewRuler.modifiedForeground"),
+    SavedLines:
+      getColor("editorGutter.addedBackground") ||
+      getColor("editorOverviewRuler.addedForeground"),
+    MarkError: getColor("editorOverviewRuler.errorForeground"),
+    MarkWarning: getColor("editorOverviewRuler.warningForeground"),
+    MarkBookmark: getColor("editorOverviewRuler.infoForeground"),
+    WordWrapMarker: getColor("editorGutter.foldingControlForeground"),
+    IconBorder: getColor("editorGutter.background"),
+    MarkBreakpointActive: getColor("debugIcon.breakpointForeground"),
+    MarkBreakpointDisabled: getColor("debugIcon.breakpointDisabledForeground"),
+    MarkBreakpointReached: getColor(
+      "debugIcon.breakpointCurrentStackframeForeground"
+    ),
+    Separator: getColor("menu.separatorBackground"),
+    TabMarker: getColor("editorWhitespace.foreground"),
+  };
 
   const kateTheme: KateTheme = {
-    metadata: { name: theme.name, revision: 1 },
+    metadata: {
+      name: theme.name,
+      revision: 1,
+      source: formatSource(theme.source),
+    },
     "editor-colors": {
       ...defaultKateTheme,
-      BackgroundColor: getColor("editor.background"),
-      IndentationLine: getColor("editorIndentGuide.background"),
-      TextSelection: getColor("editor.selectionBackground"),
-      LineNumbers: getColor("editorLineNumber.foreground"),
-      CurrentLineNumber: getColor("editorLineNumber.activeForeground"),
-      CurrentLine: getColor("editor.lineHighlightBackground"),
-      SearchHighlight: getColor("editor.findMatchHighlightBackground"),
-      ReplaceHighlight: getColor("editor.findMatchBackground"),
-      BracketMatching: getColor("editorBracketMatch.background"),
-      CodeFolding: getColor("editor.foldBackground"),
-      SpellChecking: getColor("editorError.foreground"),
-      ModifiedLines:
-        getColor("editorGutter.modifiedBackground") ||
-        getColor("editorOverviewRuler.modifiedForeground"),
-      SavedLines:
-        getColor("editorGutter.addedBackground") ||
-        getColor("editorOverviewRuler.addedForeground"),
-      MarkError: getColor("editorOverviewRuler.errorForeground"),
-      MarkWarning: getColor("editorOverviewRuler.warningForeground"),
-      MarkBookmark: getColor("editorOverviewRuler.infoForeground"),
-      WordWrapMarker: getColor("editorGutter.foldingControlForeground"),
-      IconBorder: getColor("editorGutter.background"),
-      MarkBreakpointActive: getColor("debugIcon.breakpointForeground"),
-      MarkBreakpointDisabled: getColor(
-        "debugIcon.breakpointDisabledForeground"
-      ),
-      MarkBreakpointReached: getColor(
-        "debugIcon.breakpointCurrentStackframeForeground"
-      ),
-      Separator: getColor("menu.separatorBackground"),
-      TabMarker: getColor("editorWhitespace.foreground"),
+      // Colors the theme doesn't define keep Kate's defaults
+      ...omitUndefined(editorColors),
     },
     "text-styles": {
       Normal: toKateStyle("variable"),
@@ -236,7 +319,7 @@ export default function convert(theme: VSCodeTheme): string {
       Comment: toKateStyle("comment"),
       Keyword: toKateStyle("keyword"),
       ControlFlow: toKateStyle("keyword.control") || toKateStyle("keyword"),
-      Function: toKateStyle("entity.name.function"),
+      Function: toKateSemanticStyle("function", "entity.name.function"),
       String: toKateStyle("string"),
       VerbatimString: toKateStyle("markup.raw"),
       SpecialString: toKateStyle("string.regexp"),
@@ -245,15 +328,18 @@ export default function convert(theme: VSCodeTheme): string {
         toKateStyle("constant.character"),
       Char: toKateStyle("constant.character"),
       Import: toKateStyle("keyword.control") || toKateStyle("keyword"),
-      Constant: toKateStyle("variable.other.constant"),
+      Constant: toKateSemanticStyle(
+        "variable.readonly",
+        "variable.other.constant"
+      ),
       Float: toKateStyle("constant.numeric"),
       DecVal: toKateStyle("constant.numeric"),
       BaseN: toKateStyle("constant.numeric"),
-      DataType: toKateStyle("support.type"),
-      Operator: toKateStyle("keyword.operator.*") || toKateStyle("keyword"),
-      Variable: toKateStyle("variable"),
-      BuiltIn: toKateStyle("variable"),
-      Extension: toKateStyle("support.class"),
+      DataType: toKateSemanticStyle("type", "support.type"),
+      Operator: toKateStyle("keyword.operator") || toKateStyle("keyword"),
+      Variable: toKateSemanticStyle("variable", "variable"),
+      BuiltIn: toKateSemanticStyle("variable.defaultLibrary", "variable"),
+      Extension: toKateSemanticStyle("class", "support.class"),
       Preprocessor: toKateStyle("meta.preprocessor"),
       Attribute: toKateStyle("variable"),
       // toKateStyle("entity.other.attribute") ||
@@ -264,7 +350,7 @@ export default function convert(theme: VSCodeTheme): string {
       Warning: toKateStyle("keyword"),
       CommentVar: toKateStyle("variable"),
       Documentation:
-        toKateStyle("comment.block.documentation") || toKateStyle("comment.*"),
+        toKateStyle("comment.block.documentation") || toKateStyle("comment"),
       Information: {
         "selected-text-color": "#6a737d",
         "text-color": "#6a737d",
@@ -282,10 +368,16 @@ export default function convert(theme: VSCodeTheme): string {
     },
     "custom-styles": {
       TypeScript: {
-        Objects: toKateStyle("variable.other.constant"),
+        Objects: toKateSemanticStyle(
+          "variable.readonly",
+          "variable.other.constant"
+        ),
       },
       JavaScript: {
-        Objects: toKateStyle("variable.other.constant"),
+        Objects: toKateSemanticStyle(
+          "variable.readonly",
+          "variable.other.constant"
+        ),
       },
       "TypeScript React (TSX)": {
         "Component Tag": toKateStyle("support.class"),
@@ -305,3 +397,12 @@ export default function convert(theme: VSCodeTheme): string {
 
   return JSON.stringify(kateTheme);
 }
+
+/**
+ * Qt takes alpha hex colors as AARRGGBB instead of RRGGBBAA
+ */
+function toQtColor(color: string | undefined) {
+  if (!color || !isTranslucent(color)) return color;
+  const hex = tinycolor2(color).toHex8();
+  return `#${hex.slice(6)}${hex.slice(0, 6)}`;
+}
@@ -0,0 +1,29 @@
+import { getTerminalPalette } from "../terminal";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+export default function convert(theme: VSCodeTheme): string {
+  const palette = getTerminalPalette(theme);
+
+  const colors: Record<string, string> = {
+    foreground: palette.foreground,
+    background: palette.background,
+    // none keeps the text colors of the selected cells
+    selection_foreground: palette.selectionForeground || "none",
+    selection_background: palette.selectionBackground,
+    cursor: palette.cursor,
+    cursor_text_color: palette.cursorText,
+  };
+  palette.ansi.forEach((color, index) => (colors[`color${index}`] = color));
+
+  const source = formatSource(theme.source);
+  return [
+    "# vim:ft=kitty",
+    "",
+    `## name: ${theme.name}`,
+    ...(source ? [`## blurb: Converted from ${source}`] : []),
+    "",
+    ...Object.entries(colors).map(([key, value]) => `${key} ${value}`),
+    "",
+  ].join("\n");
+}
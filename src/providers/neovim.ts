@@ -0,0 +1,281 @@
+import { createThemeColors, toXterm256 } from "../colors";
+import { sanitizeFileName } from "../output";
+import { createSemanticTokenStyleResolver } from "../semantic-tokens";
+import { createTokenStyleResolver, TokenStyle } from "../token-style";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+import { getVimHighlights, Highlight, isEmptyHighlight } from "./vim";
+
+// Treesitter capture -> TextMate scopes to try in order
+const TREESITTER_CAPTURES: [capture: string, scopes: string[]][] = [
+  ["@comment", ["comment"]],
+  ["@comment.documentation", ["comment.block.documentation", "comment"]],
+  ["@keyword", ["keyword", "storage.type"]],
+  ["@keyword.function", ["storage.type.function", "keyword"]],
+  ["@keyword.operator", ["keyword.operator.expression", "keyword.operator"]],
+  ["@keyword.return", ["keyword.control.flow", "keyword.control"]],
+  ["@keyword.import", ["keyword.control.import", "keyword.control"]],
+  ["@keyword.conditional", ["keyword.control.conditional", "keyword.control"]],
+  ["@keyword.repeat", ["keyword.control.loop", "keyword.control"]],
+  ["@keyword.exception", ["keyword.control.exception", "keyword.control"]],
+  ["@keyword.modifier", ["storage.modifier"]],
+  ["@keyword.type", ["storage.type"]],
+  ["@string", ["string"]],
+  ["@string.escape", ["constant.character.escape"]],
+  ["@string.regexp", ["string.regexp"]],
+  ["@string.special", ["string.other", "constant.character.escape"]],
+  ["@string.special.url", ["markup.underline.link", "string.other.link"]],
+  ["@character", ["constant.character"]],
+  ["@number", ["constant.numeric"]],
+  ["@number.float", ["constant.numeric.float", "constant.numeric"]],
+  ["@boolean", ["constant.language.boolean", "constant.language"]],
+  ["@constant", ["variable.other.constant", "constant"]],
+  ["@constant.builtin", ["constant.language", "support.constant"]],
+  [
+    "@constant.macro",
+    ["constant.other.macro", "entity.name.function.preprocessor"],
+  ],
+  ["@variable", ["variable.other.readwrite", "variable"]],
+  ["@variable.builtin", ["variable.language", "support.variable"]],
+  ["@variable.parameter", ["variable.parameter"]],
+  [
+    "@variable.member",
+    ["variable.other.property", "variable.other.object.property"],
+  ],
+  ["@property", ["variable.other.property", "support.type.property-name"]],
+  ["@function", ["entity.name.function"]],
+  ["@function.builtin", ["support.function"]],
+  [
+    "@function.call",
+    ["meta.function-call entity.name.function", "entity.name.function"],
+  ],
+  ["@function.method", ["entity.name.function.member", "entity.name.function"]],
+  [
+    "@function.macro",
+    ["entity.name.function.preprocessor", "entity.name.function"],
+  ],
+  [
+    "@constructor",
+    [
+      "entity.name.function.constructor",
+      "support.class",
+      "entity.name.type.class",
+    ],
+  ],
+  ["@type", ["entity.name.type", "support.type"]],
+  ["@type.builtin", ["support.type.primitive", "support.type"]],
+  ["@type.definition", ["entity.name.type.alias", "entity.name.type"]],
+  ["@attribute", ["entity.name.decorator", "meta.decorator"]],
+  ["@module", ["entity.name.namespace", "entity.name.type.module"]],
+  ["@label", ["entity.name.label"]],
+  ["@operator", ["keyword.operator"]],
+  ["@punctuation.delimiter", ["punctuation.separator", "punctuation"]],
+  [
+    "@punctuation.bracket",
+    ["punctuation.section", "meta.brace", "punctuation"],
+  ],
+  [
+    "@punctuation.special",
+    ["punctuation.definition.template-expression", "punctuation"],
+  ],
+  ["@tag", ["entity.name.tag"]],
+  ["@tag.attribute", ["entity.other.attribute-name"]],
+  ["@tag.delimiter", ["punctuation.definition.tag"]],
+  ["@markup.heading", ["markup.heading", "entity.name.section"]],
+  ["@markup.strong", ["markup.bold"]],
+  ["@markup.italic", ["markup.italic"]],
+  ["@markup.strikethrough", ["markup.strikethrough"]],
+  ["@markup.link.url", ["markup.underline.link"]],
+  ["@markup.raw", ["markup.inline.raw", "markup.raw"]],
+  ["@markup.quote", ["markup.quote"]],
+  ["@markup.list", ["punctuation.definition.list", "markup.list"]],
+  ["@diff.plus", ["markup.inserted"]],
+  ["@diff.minus", ["markup.deleted"]],
+  ["@diff.delta", ["markup.changed"]],
+];
+
+// The standard LSP semantic token types & modifiers
+const SEMANTIC_TOKEN_TYPES = [
+  "namespace",
+  "type",
+  "class",
+  "enum",
+  "interface",
+  "struct",
+  "typeParameter",
+  "parameter",
+  "variable",
+  "property",
+  "enumMember",
+  "event",
+  "function",
+  "method",
+  "macro",
+  "keyword",
+  "modifier",
+  "comment",
+  "string",
+  "number",
+  "regexp",
+  "operator",
+  "decorator",
+];
+
+const SEMANTIC_TOKEN_MODIFIERS = [
+  "declaration",
+  "definition",
+  "readonly",
+  "static",
+  "deprecated",
+  "abstract",
+  "async",
+  "modification",
+  "documentation",
+  "defaultLibrary",
+];
+
+/**
+ * Converts the theme to a Neovim Lua color scheme. On top of the standard
+ * Vim groups it styles Treesitter captures (from tokenColors), LSP semantic
+ * tokens (from semanticTokenColors), diagnostics & git signs.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  const themeColors = createThemeColors(theme, "composite");
+  const getColor = themeColors.get;
+  const isDark = themeColors.type === "dark" || themeColors.type === "hcDark";
+  const resolveTokenStyle = createTokenStyleResolver(theme.tokenColors);
+  const resolveSemanticTokenStyle = createSemanticTokenStyleResolver(theme);
+
+  function fromTokenStyle(style: Omit<TokenStyle, "background">): Highlight {
+    return { ...style, fg: themeColors.flatten(style.foreground) };
+  }
+
+  const highlights = getVimHighlights(theme, themeColors);
+
+  // Captures no rule styles keep Neovim's links to the Vim groups
+  for (const [capture, scopes] of TREESITTER_CAPTURES) {
+    const style = scopes
+      .map((scope) => resolveTokenStyle(scope))
+      .find((style) => !!style?.foreground);
+    if (style)
+      highlights[capture] = {
+        ...fromTokenStyle(style),
+        bg: themeColors.flatten(style.background),
+      };
+  }
+
+  // Like in VSCode, semantic tokens are only styled if the theme enables
+  // them. Otherwise the LSP groups keep Neovim's links to Treesitter.
+  if (theme.semanticHighlighting) {
+    const typeModifiers = Object.keys(theme.semanticTokenColors || {})
+      .map((selector) => selector.split(":")[0].split("."))
+      .filter(([type, ...modifiers]) => type !== "*" && modifiers.length === 1);
+    const groups: [group: string, selector: string][] = [
+      ...SEMANTIC_TOKEN_TYPES.map((type): [string, string] => [
+        `@lsp.type.${type}`,
+        type,
+      ]),
+      ...SEMANTIC_TOKEN_MODIFIERS.map((modifier): [string, string] => [
+        `@lsp.mod.${modifier}`,
+        `*.${modifier}`,
+      ]),
+      ...typeModifiers.map(([type, modifier]): [string, string] => [
+        `@lsp.typemod.${type}.${modifier}`,
+        `${type}.${modifier}`,
+      ]),
+    ];
+    for (const [group, selector] of groups) {
+      const style = resolveSemanticTokenStyle(selector);
+      if (style) highlights[group] = fromTokenStyle(style);
+    }
+  }
+
+  const diagnostics: [level: string, color: string | undefined][] = [
+    ["Error", getColor("editorError.foreground")],
+    ["Warn", getColor("editorWarning.foreground")],
+    ["Info", getColor("editorInfo.foreground")],
+    [
+      "Hint",
+      getColor("editorHint.foreground") || getColor("editorInfo.foreground"),
+    ],
+    [
+      "Ok",
+      getColor("testing.iconPassed") ||
+        getColor("editorGutter.addedBackground"),
+    ],
+  ];
+  for (const [level, color] of diagnostics) {
+    if (!color) continue;
+    highlights[`Diagnostic${level}`] = { fg: color };
+    highlights[`DiagnosticVirtualText${level}`] = { fg: color };
+    highlights[`DiagnosticSign${level}`] = {
+      fg: color,
+      bg: getColor("editorGutter.background"),
+    };
+    highlights[`DiagnosticUnderline${level}`] = { undercurl: true, sp: color };
+  }
+  highlights.DiagnosticUnnecessary = {
+    fg:
+      getColor("editorUnnecessaryCode.border") ||
+      getColor("editorWhitespace.foreground"),
+  };
+  highlights.DiagnosticDeprecated = { strikethrough: true };
+
+  const gitSigns: [sign: string, color: string | undefined][] = [
+    ["Add", getColor("editorGutter.addedBackground")],
+    ["Change", getColor("editorGutter.modifiedBackground")],
+    ["Delete", getColor("editorGutter.deletedBackground")],
+  ];
+  for (const [sign, color] of gitSigns) {
+    if (!color) continue;
+    highlights[`GitSigns${sign}`] = {
+      fg: color,
+      bg: getColor("editorGutter.background"),
+    };
+  }
+  // Neovim's own diff groups used by e.g. fugitive
+  highlights.Added = { fg: getColor("editorGutter.addedBackground") };
+  highlights.Changed = { fg: getColor("editorGutter.modifiedBackground") };
+  highlights.Removed = { fg: getColor("editorGutter.deletedBackground") };
+
+  return [
+    `-- Name: ${theme.name}`,
+    ...(theme.source ? [`-- Source: ${formatSource(theme.source)}`] : []),
+    "",
+    'vim.cmd("highlight clear")',
+    'if vim.fn.exists("syntax_on") == 1 then',
+    '  vim.cmd("syntax reset")',
+    "end",
+    `vim.o.background = "${isDark ? "dark" : "light"}"`,
+    // Must match the file name for :colorscheme
+    `vim.g.colors_name = ${JSON.stringify(sanitizeFileName(theme.name))}`,
+    "",
+    "local hl = vim.api.nvim_set_hl",
+    ...Object.entries(highlights)
+      .filter(([, highlight]) => !isEmptyHighlight(highlight))
+      .map(
+        ([group, highlight]) =>
+          `hl(0, ${JSON.stringify(group)}, ${toLuaTable(highlight)})`
+      ),
+    "",
+  ].join("\n");
+}
+
+function toLuaTable(highlight: Highlight) {
+  const fields: Record<string, string | number | boolean | undefined> = {
+    fg: highlight.fg,
+    bg: highlight.bg,
+    sp: highlight.sp,
+    ctermfg: highlight.fg && toXterm256(highlight.fg),
+    ctermbg: highlight.bg && toXterm256(highlight.bg),
+    bold: highlight.bold || undefined,
+    italic: highlight.italic || undefined,
+    underline: highlight.underline || undefined,
+    undercurl: highlight.undercurl || undefined,
+    strikethrough: highlight.strikethrough || undefined,
+  };
+  const entries = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(([key, value]) => `${key} = ${JSON.stringify(value)}`);
+  return `{ ${entries.join(", ")} }`;
+}
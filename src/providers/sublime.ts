@@ -0,0 +1,101 @@
+import { createThemeColors } from "../colors";
+import { getFontStyle } from "../token-style";
+import { VSCodeTheme } from "../types";
+
+// Sublime global setting -> workbench color
+const GLOBALS: [setting: string, id: string][] = [
+  ["background", "editor.background"],
+  ["foreground", "editor.foreground"],
+  ["invisibles", "editorWhitespace.foreground"],
+  ["caret", "editorCursor.foreground"],
+  ["line_highlight", "editor.lineHighlightBackground"],
+  ["selection", "editor.selectionBackground"],
+  ["selection_foreground", "editor.selectionForeground"],
+  ["inactive_selection", "editor.inactiveSelectionBackground"],
+  ["gutter", "editorGutter.background"],
+  ["gutter_foreground", "editorLineNumber.foreground"],
+  ["gutter_foreground_highlight", "editorLineNumber.activeForeground"],
+  ["find_highlight", "editor.findMatchBackground"],
+  ["highlight", "editor.findMatchHighlightBackground"],
+  ["brackets_foreground", "editorBracketMatch.border"],
+  ["tags_foreground", "editorBracketMatch.border"],
+  ["guide", "editorIndentGuide.background"],
+  ["stack_guide", "editorIndentGuide.background"],
+  ["active_guide", "editorIndentGuide.activeBackground"],
+  ["misspelling", "editorError.foreground"],
+  ["line_diff_added", "editorGutter.addedBackground"],
+  ["line_diff_modified", "editorGutter.modifiedBackground"],
+  ["line_diff_deleted", "editorGutter.deletedBackground"],
+  ["accent", "focusBorder"],
+];
+
+type SublimeRule = {
+  name?: string;
+  scope: string;
+  foreground?: string;
+  background?: string;
+  font_style?: string;
+};
+
+/**
+ * Converts the theme to a Sublime Text color scheme. Sublime uses TextMate
+ * scopes too so the tokenColors rules are kept as is (& in order). Every
+ * color becomes a variable of the scheme's palette.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  // Sublime supports alpha so translucent colors are kept as is
+  const themeColors = createThemeColors(theme, "keep");
+
+  const variables: Record<string, string> = {};
+  // Colors are named after the first global using them
+  const variableNames = new Map<string, string>();
+  let unnamedColors = 0;
+  function toVariable(color: string | undefined, name?: string) {
+    if (!color) return;
+    let variable = variableNames.get(color);
+    if (!variable) {
+      variable = name || `color${++unnamedColors}`;
+      variableNames.set(color, variable);
+      variables[variable] = color;
+    }
+    return `var(${variable})`;
+  }
+
+  const globals: Record<string, string> = {};
+  for (const [setting, id] of GLOBALS) {
+    const color = toVariable(themeColors.get(id), setting);
+    if (color) globals[setting] = color;
+  }
+  if (globals.brackets_foreground) globals.brackets_options = "underline";
+  if (globals.tags_foreground) globals.tags_options = "underline";
+
+  const rules = theme.tokenColors
+    .filter((rule) => !!rule.scope && !!rule.settings)
+    .map((rule): SublimeRule => {
+      const fontStyle = getFontStyle(rule.settings);
+      return {
+        name: rule.name,
+        scope: [rule.scope!].flat().join(", "),
+        foreground: toVariable(rule.settings.foreground),
+        background: toVariable(rule.settings.background),
+        font_style:
+          fontStyle &&
+          (["bold", "italic", "underline", "strikethrough"] as const)
+            .filter((style) => fontStyle[style])
+            .join(" "),
+      };
+    });
+
+  return JSON.stringify(
+    {
+      name: theme.name,
+      // The publisher of the extension the theme was converted from
+      author: theme.source?.namespace,
+      variables,
+      globals,
+      rules,
+    },
+    undefined,
+    2
+  );
+}
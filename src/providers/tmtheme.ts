@@ -0,0 +1,90 @@
+import { createHash } from "crypto";
+import { createThemeColors } from "../colors";
+import { sanitizeFileName } from "../output";
+import { getTmThemeGlobalSettings, buildPlist, PlistValue } from "../tmtheme";
+import { getFontStyle } from "../token-style";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+// Namespace of the name based (v5) UUIDs of converted themes
+const UUID_NAMESPACE = "4c3f6b1e-8f4a-5d2b-9c1e-7a6d5e4f3b2a";
+
+/**
+ * Converts the theme to a TextMate theme (as used by bat, Sublime Merge
+ * etc.). The first settings entry holds the global editor colors followed
+ * by one entry per tokenColors rule.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  // bat & other syntect based consumers don't blend alpha so translucent
+  // colors are composited onto their background
+  const themeColors = createThemeColors(theme, "composite");
+  const isDark = themeColors.type === "dark" || themeColors.type === "hcDark";
+  // Checked up front as the UUID is derived from the name as well
+  const slug = sanitizeFileName(theme.name).toLowerCase();
+
+  const globalSettings = getTmThemeGlobalSettings(themeColors.get);
+  // Not supported by VSCode but by most other tmTheme consumers
+  const gutter = themeColors.get("editorGutter.background");
+  const gutterForeground = themeColors.get("editorLineNumber.foreground");
+  if (gutter) globalSettings.gutter = gutter;
+  if (gutterForeground) globalSettings.gutterForeground = gutterForeground;
+
+  const rules = theme.tokenColors
+    .filter((rule) => !!rule.scope && !!rule.settings)
+    .map((rule) => {
+      const settings: Record<string, string> = {};
+      const foreground = themeColors.flatten(rule.settings.foreground);
+      const background = themeColors.flatten(rule.settings.background);
+      if (foreground) settings.foreground = foreground;
+      if (background) settings.background = background;
+
+      const fontStyle = getFontStyle(rule.settings);
+      if (fontStyle)
+        settings.fontStyle = (
+          ["bold", "italic", "underline", "strikethrough"] as const
+        )
+          .filter((style) => fontStyle[style])
+          .join(" ");
+
+      const entry: Record<string, PlistValue> = {};
+      if (rule.name) entry.name = rule.name;
+      entry.scope = [rule.scope!].flat().join(", ");
+      entry.settings = settings;
+      return entry;
+    });
+
+  const source = formatSource(theme.source);
+  const tmTheme: Record<string, PlistValue> = {
+    name: theme.name,
+    ...(source ? { comment: `Converted from ${source}` } : {}),
+    semanticClass: `theme.${isDark ? "dark" : "light"}.${slug}`,
+    colorSpaceName: "sRGB",
+    uuid: createUUID(theme.name),
+    settings: [{ settings: globalSettings }, ...rules],
+  };
+
+  return buildPlist(tmTheme);
+}
+
+/**
+ * Creates a name based (version 5) UUID so converting the same theme
+ * always gives the same UUID
+ */
+function createUUID(name: string) {
+  const namespace = Buffer.from(UUID_NAMESPACE.replace(/-/g, ""), "hex");
+  const hash = createHash("sha1")
+    .update(namespace)
+    .update(name, "utf8")
+    .digest();
+
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString("hex").toUpperCase();
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join("-");
+}
@@ -0,0 +1,246 @@
+import tinycolor2 from "tinycolor2";
+import { toHex } from "../base";
+import {
+  compositeColor,
+  createThemeColors,
+  ThemeColors,
+  toXterm256,
+} from "../colors";
+import { sanitizeFileName } from "../output";
+import { createTokenStyleResolver, FontStyle } from "../token-style";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+export type Highlight = Partial<FontStyle> & {
+  fg?: string;
+  bg?: string;
+  /**
+   * Color of undercurls (e.g. for spelling errors)
+   */
+  sp?: string;
+  undercurl?: boolean;
+};
+
+// Vim syntax group -> TextMate scopes to try in order
+const SYNTAX_GROUPS: [group: string, scopes: string[]][] = [
+  ["Comment", ["comment"]],
+  ["Constant", ["constant", "variable.other.constant"]],
+  ["String", ["string"]],
+  ["Character", ["constant.character", "string"]],
+  ["Number", ["constant.numeric"]],
+  ["Boolean", ["constant.language.boolean", "constant.language"]],
+  ["Float", ["constant.numeric.float", "constant.numeric"]],
+  ["Identifier", ["variable", "entity.name.variable"]],
+  ["Function", ["entity.name.function", "support.function"]],
+  ["Statement", ["keyword", "keyword.control"]],
+  ["Conditional", ["keyword.control.conditional", "keyword.control"]],
+  ["Repeat", ["keyword.control.loop", "keyword.control"]],
+  ["Label", ["entity.name.label", "keyword.control"]],
+  ["Operator", ["keyword.operator"]],
+  ["Keyword", ["keyword", "storage"]],
+  ["Exception", ["keyword.control.exception", "keyword.control"]],
+  ["PreProc", ["meta.preprocessor", "keyword.control.directive"]],
+  ["Include", ["keyword.control.import", "keyword.control"]],
+  ["Define", ["keyword.control.directive.define", "meta.preprocessor"]],
+  ["Macro", ["entity.name.function.preprocessor", "meta.preprocessor"]],
+  ["PreCondit", ["keyword.control.directive.conditional", "meta.preprocessor"]],
+  ["Type", ["entity.name.type", "support.type"]],
+  ["StorageClass", ["storage.modifier", "storage"]],
+  ["Structure", ["storage.type", "entity.name.type"]],
+  ["Typedef", ["entity.name.type.alias", "entity.name.type"]],
+  ["Special", ["constant.character.escape", "support"]],
+  ["SpecialChar", ["constant.character.escape"]],
+  ["Tag", ["entity.name.tag"]],
+  ["Delimiter", ["punctuation"]],
+  ["SpecialComment", ["comment.block.documentation", "comment"]],
+  ["Debug", ["keyword.other.debugger", "keyword"]],
+  ["Underlined", ["markup.underline", "string.other.link"]],
+  ["Error", ["invalid"]],
+  ["Todo", ["comment.todo", "keyword.other.todo"]],
+];
+
+/**
+ * Converts the theme to a Vim color scheme. Vim has no alpha so translucent
+ * colors are composited onto their background. The cterm colors are the
+ * closest xterm 256 colors for terminals without true color support.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  const themeColors = createThemeColors(theme, "composite");
+  const isDark = themeColors.type === "dark" || themeColors.type === "hcDark";
+  const highlights = getVimHighlights(theme, themeColors);
+
+  return [
+    `" Name: ${theme.name}`,
+    ...(theme.source ? [`" Source: ${formatSource(theme.source)}`] : []),
+    "",
+    `set background=${isDark ? "dark" : "light"}`,
+    "hi clear",
+    'if exists("syntax_on")',
+    "  syntax reset",
+    "endif",
+    // Must match the file name for :colorscheme
+    `let g:colors_name = "${sanitizeFileName(theme.name)}"`,
+    "",
+    ...Object.entries(highlights)
+      .filter(([, highlight]) => !isEmptyHighlight(highlight))
+      .map(([group, highlight]) => toHighlightCommand(group, highlight)),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Gets the standard Vim UI & syntax highlight groups of the theme
+ */
+export function getVimHighlights(
+  theme: VSCodeTheme,
+  themeColors: ThemeColors
+): Record<string, Highlight> {
+  const getColor = themeColors.get;
+  const resolveTokenStyle = createTokenStyleResolver(theme.tokenColors);
+
+  const foreground = getColor("editor.foreground");
+  const background = getColor("editor.background");
+
+  // A lighter version of a (gutter) color for highlighting lines
+  function tint(color: string | undefined, alpha: number) {
+    if (!color || !background) return color;
+    return compositeColor(toHex(tinycolor2(color).setAlpha(alpha)), background);
+  }
+
+  function getSyntaxHighlight(scopes: string[]): Highlight {
+    for (const scope of scopes) {
+      const style = resolveTokenStyle(scope);
+      if (!style?.foreground) continue;
+      return {
+        ...style,
+        fg: themeColors.flatten(style.foreground),
+        bg: themeColors.flatten(style.background),
+      };
+    }
+    // Groups no rule styles keep Vim's defaults (see isEmptyHighlight)
+    return {};
+  }
+
+  const highlights: Record<string, Highlight> = {
+    Normal: { fg: foreground, bg: background },
+    Cursor: { fg: background, bg: getColor("editorCursor.foreground") },
+    CursorLine: { bg: getColor("editor.lineHighlightBackground") },
+    CursorColumn: { bg: getColor("editor.lineHighlightBackground") },
+    ColorColumn: { bg: getColor("editor.lineHighlightBackground") },
+    LineNr: {
+      fg: getColor("editorLineNumber.foreground"),
+      bg: getColor("editorGutter.background"),
+    },
+    CursorLineNr: {
+      fg: getColor("editorLineNumber.activeForeground"),
+      bg: getColor("editorGutter.background"),
+    },
+    SignColumn: { bg: getColor("editorGutter.background") },
+    FoldColumn: {
+      fg: getColor("editorGutter.foldingControlForeground"),
+      bg: getColor("editorGutter.background"),
+    },
+    Folded: { fg: foreground, bg: getColor("editor.foldBackground") },
+    Visual: {
+      fg: getColor("editor.selectionForeground"),
+      bg: getColor("editor.selectionBackground"),
+    },
+    Search: { bg: getColor("editor.findMatchHighlightBackground") },
+    IncSearch: { bg: getColor("editor.findMatchBackground") },
+    MatchParen: { bg: getColor("editorBracketMatch.background") },
+    NonText: { fg: getColor("editorWhitespace.foreground") },
+    SpecialKey: { fg: getColor("editorWhitespace.foreground") },
+    Whitespace: { fg: getColor("editorWhitespace.foreground") },
+    EndOfBuffer: { fg: getColor("editorWhitespace.foreground") },
+    VertSplit: { fg: getColor("editorGroup.border"), bg: background },
+    Pmenu: {
+      fg: getColor("editorSuggestWidget.foreground"),
+      bg: getColor("editorSuggestWidget.background"),
+    },
+    PmenuSel: {
+      fg: getColor("editorSuggestWidget.selectedForeground"),
+      bg: getColor("editorSuggestWidget.selectedBackground"),
+    },
+    PmenuSbar: { bg: getColor("editorSuggestWidget.background") },
+    PmenuThumb: { bg: getColor("scrollbarSlider.activeBackground") },
+    StatusLine: {
+      fg: getColor("statusBar.foreground"),
+      bg: getColor("statusBar.background"),
+    },
+    StatusLineNC: {
+      fg: getColor("tab.inactiveForeground"),
+      bg: getColor("editorGroupHeader.tabsBackground"),
+    },
+    TabLine: {
+      fg: getColor("tab.inactiveForeground"),
+      bg: getColor("tab.inactiveBackground"),
+    },
+    TabLineSel: {
+      fg: getColor("tab.activeForeground"),
+      bg: getColor("tab.activeBackground"),
+    },
+    TabLineFill: { bg: getColor("editorGroupHeader.tabsBackground") },
+    WildMenu: {
+      fg: getColor("editorSuggestWidget.selectedForeground"),
+      bg: getColor("editorSuggestWidget.selectedBackground"),
+    },
+    Title: { fg: foreground, bold: true },
+    Directory: { fg: getColor("textLink.foreground") },
+    ErrorMsg: { fg: getColor("errorForeground") },
+    WarningMsg: { fg: getColor("editorWarning.foreground") },
+    MoreMsg: { fg: getColor("textLink.foreground") },
+    Question: { fg: getColor("textLink.foreground") },
+    DiffAdd: { bg: getColor("diffEditor.insertedTextBackground") },
+    DiffDelete: { bg: getColor("diffEditor.removedTextBackground") },
+    DiffChange: {
+      bg: tint(getColor("editorGutter.modifiedBackground"), 0.2),
+    },
+    DiffText: {
+      bg: tint(getColor("editorGutter.modifiedBackground"), 0.4),
+    },
+    SpellBad: { undercurl: true, sp: getColor("editorError.foreground") },
+    SpellCap: { undercurl: true, sp: getColor("editorWarning.foreground") },
+    SpellRare: { undercurl: true, sp: getColor("editorInfo.foreground") },
+    SpellLocal: { undercurl: true, sp: getColor("editorInfo.foreground") },
+  };
+  for (const [group, scopes] of SYNTAX_GROUPS)
+    highlights[group] = getSyntaxHighlight(scopes);
+  return highlights;
+}
+
+/**
+ * Highlights the theme has no colors for. Setting them would clear
+ * the group's defaults instead of styling it.
+ */
+export function isEmptyHighlight(highlight: Highlight) {
+  return (
+    !highlight.fg &&
+    !highlight.bg &&
+    !highlight.sp &&
+    !highlight.bold &&
+    !highlight.italic &&
+    !highlight.underline &&
+    !highlight.undercurl &&
+    !highlight.strikethrough
+  );
+}
+
+function toHighlightCommand(group: string, highlight: Highlight) {
+  const attributes = [
+    highlight.bold && "bold",
+    highlight.italic && "italic",
+    highlight.underline && "underline",
+    highlight.undercurl && "undercurl",
+    highlight.strikethrough && "strikethrough",
+  ].filter((a) => !!a);
+  const attribute = attributes.join(",") || "NONE";
+
+  const args = [`gui=${attribute}`, `cterm=${attribute}`];
+  if (highlight.fg)
+    args.push(`guifg=${highlight.fg}`, `ctermfg=${toXterm256(highlight.fg)}`);
+  if (highlight.bg)
+    args.push(`guibg=${highlight.bg}`, `ctermbg=${toXterm256(highlight.bg)}`);
+  if (highlight.sp) args.push(`guisp=${highlight.sp}`);
+
+  return `hi ${group} ${args.join(" ")}`;
+}
@@ -0,0 +1,40 @@
+import { getTerminalPalette } from "../terminal";
+import { VSCodeTheme } from "../types";
+import { formatSource } from "../utils";
+
+export default function convert(theme: VSCodeTheme): string {
+  const palette = getTerminalPalette(theme);
+
+  const colors: Record<string, string | string[] | undefined> = {
+    foreground: palette.foreground,
+    background: palette.background,
+    cursor_bg: palette.cursor,
+    cursor_border: palette.cursor,
+    cursor_fg: palette.cursorText,
+    selection_bg: palette.selectionBackground,
+    // Keeps the text colors of the selected cells if not set
+    selection_fg: palette.selectionForeground,
+    ansi: Object.values(palette.normal),
+    brights: Object.values(palette.bright),
+  };
+  const metadata = { name: theme.name };
+
+  return [
+    `# ${[theme.name, formatSource(theme.source)]
+      .filter((a) => !!a)
+      .join(" - ")}`,
+    "",
+    "[colors]",
+    ...toTOML(colors),
+    "",
+    "[metadata]",
+    ...toTOML(metadata),
+    "",
+  ].join("\n");
+}
+
+function toTOML(values: Record<string, string | string[] | undefined>) {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key} = ${JSON.stringify(value)}`);
+}
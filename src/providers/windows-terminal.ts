@@ -0,0 +1,38 @@
+import { getTerminalPalette } from "../terminal";
+import { VSCodeTheme } from "../types";
+
+// Windows Terminal calls magenta purple
+const WINDOWS_TERMINAL_NAMES = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "purple",
+  "cyan",
+  "white",
+];
+
+/**
+ * Converts the terminal colors to a Windows Terminal JSON fragment with a
+ * single color scheme. Its `schemes` can be copied into settings.json.
+ */
+export default function convert(theme: VSCodeTheme): string {
+  const palette = getTerminalPalette(theme);
+
+  const scheme: Record<string, string | undefined> = {
+    name: theme.name,
+    foreground: palette.foreground,
+    background: palette.background,
+    cursorColor: palette.cursor,
+    selectionBackground: palette.selectionBackground,
+  };
+  palette.ansi.forEach((color, index) => {
+    const name = WINDOWS_TERMINAL_NAMES[index % 8];
+    scheme[
+      index < 8 ? name : `bright${name[0].toUpperCase()}${name.slice(1)}`
+    ] = color;
+  });
+
+  return JSON.stringify({ schemes: [scheme] }, undefined, 2);
+}
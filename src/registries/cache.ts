@@ -0,0 +1,159 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { findExtension, searchExtensions } from "./local";
+import { Extension, IRegistry } from "./types";
+
+type CacheIndex = Record<string, CacheEntry>;
+
+export type CacheEntry = {
+  extension: Extension;
+  /**
+   * SHA-256 of the VSIX package which is also its file name in the cache
+   */
+  hash: string;
+  size: number;
+  cachedAt: string;
+};
+
+export interface CacheOptions {
+  cacheDir: string;
+  /**
+   * Never hit the network; everything must come from the cache.
+   */
+  offline?: boolean;
+  /**
+   * Always download packages even if they are already cached.
+   */
+  refresh?: boolean;
+}
+
+const CACHE_INDEX_FILE = "index.json";
+
+export function getDefaultCacheDir() {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheHome, "vscode-theme-converter");
+}
+
+/**
+ * Wraps a registry so downloaded VSIX packages are stored on disk keyed
+ * by namespace, name & version. In offline mode, the cached extensions
+ * are used for searching as well.
+ */
+export function createCachedRegistry(
+  registry: IRegistry,
+  options: CacheOptions
+): IRegistry {
+  const { cacheDir, offline, refresh } = options;
+
+  async function getCachedExtensions() {
+    const index = await readCacheIndex(cacheDir);
+    return Object.values(index).map((entry) => entry.extension);
+  }
+
+  return {
+    async search(query, searchOptions) {
+      if (!offline) return registry.search(query, searchOptions);
+      return searchExtensions(
+        await getCachedExtensions(),
+        query,
+        searchOptions
+      );
+    },
+
+    async getExtension(namespace, name, version) {
+      // Pinned versions never change so their cached metadata is up to date
+      if (version && !refresh) {
+        const index = await readCacheIndex(cacheDir);
+        const entry = index[getCacheKey({ namespace, name, version })];
+        if (entry) return entry.extension;
+      }
+
+      if (!offline) return registry.getExtension(namespace, name, version);
+      return findExtension(
+        await getCachedExtensions(),
+        namespace,
+        name,
+        version
+      );
+    },
+
+    async download(extension) {
+      const key = getCacheKey(extension);
+      const index = await readCacheIndex(cacheDir);
+      const entry = index[key];
+
+      if (entry && !refresh) {
+        const data = await readBlob(cacheDir, entry.hash);
+        if (data) {
+          console.info("Using cached", key);
+          return data;
+        }
+      }
+
+      if (offline)
+        throw new Error(`${key} is not cached. Run without --offline first.`);
+
+      const data = await registry.download(extension);
+      if (!data) return;
+
+      const hash = createHash("sha256").update(data).digest("hex");
+      await mkdir(join(cacheDir, "vsix"), { recursive: true });
+      await writeFile(getBlobPath(cacheDir, hash), data);
+
+      index[key] = {
+        extension,
+        hash,
+        size: data.byteLength,
+        cachedAt: new Date().toISOString(),
+      };
+      await writeFile(join(cacheDir, CACHE_INDEX_FILE), JSON.stringify(index));
+
+      return data;
+    },
+  };
+}
+
+export async function listCache(cacheDir: string): Promise<CacheEntry[]> {
+  return Object.values(await readCacheIndex(cacheDir));
+}
+
+/**
+ * Removes the cached packages. Only the files the cache owns are removed
+ * since the cache directory is user provided (e.g. `--cache-dir ~`).
+ */
+export async function clearCache(cacheDir: string) {
+  await rm(join(cacheDir, "vsix"), { recursive: true, force: true });
+  await rm(join(cacheDir, CACHE_INDEX_FILE), { force: true });
+}
+
+function getCacheKey(
+  extension: Pick<Extension, "namespace" | "name" | "version">
+) {
+  return `${extension.namespace}.${extension.name}@${extension.version}`;
+}
+
+function getBlobPath(cacheDir: string, hash: string) {
+  return join(cacheDir, "vsix", `${hash}.vsix`);
+}
+
+async function readBlob(cacheDir: string, hash: string) {
+  try {
+    return new Uint8Array(await readFile(getBlobPath(cacheDir, hash)));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return;
+    throw e;
+  }
+}
+
+async function readCacheIndex(cacheDir: string): Promise<CacheIndex> {
+  try {
+    return JSON.parse(
+      await readFile(join(cacheDir, CACHE_INDEX_FILE), "utf-8")
+    ) as CacheIndex;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw e;
+  }
+}
@@ -0,0 +1,156 @@
+import { readFile } from "fs/promises";
+import { join, resolve } from "path";
+import { Extension, IRegistry, QueryResponse, SearchOptions } from "./types";
+
+type LocalIndex = {
+  extensions: LocalIndexEntry[];
+};
+
+type LocalIndexEntry = Partial<Omit<Extension, "files" | "url">> & {
+  namespace: string;
+  name: string;
+  version: string;
+  /**
+   * Path of the VSIX package relative to the registry directory
+   */
+  file: string;
+};
+
+export const LOCAL_INDEX_FILE = "index.json";
+
+/**
+ * A registry backed by a local directory of VSIX packages. The packages
+ * are listed in an `index.json` file in the same directory:
+ *
+ * ```json
+ * {
+ *   "extensions": [
+ *     {
+ *       "namespace": "acme",
+ *       "name": "acme-theme",
+ *       "version": "1.0.0",
+ *       "displayName": "Acme Theme",
+ *       "file": "acme.acme-theme-1.0.0.vsix"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+export function createLocalRegistry(directory: string): IRegistry {
+  let index: Promise<Extension[]> | undefined;
+  function getExtensions() {
+    if (!index) index = readIndex(resolve(directory));
+    return index;
+  }
+
+  return {
+    async search(query, options) {
+      return searchExtensions(await getExtensions(), query, options);
+    },
+
+    async getExtension(namespace, name, version) {
+      return findExtension(await getExtensions(), namespace, name, version);
+    },
+
+    async download(extension) {
+      return new Uint8Array(await readFile(extension.files.download));
+    },
+  };
+}
+
+/**
+ * Searches a list of extensions by matching all words in the query against
+ * their namespace, name, display name & description.
+ */
+export function searchExtensions(
+  extensions: Extension[],
+  query: string,
+  options: SearchOptions = {}
+): QueryResponse {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const results = extensions.filter((extension) => {
+    const haystack = [
+      extension.namespace,
+      extension.name,
+      extension.displayName,
+      extension.description,
+    ]
+      .join(" ")
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+
+  const offset = options.offset || 0;
+  const size = options.size || 10;
+  return {
+    offset,
+    totalSize: results.length,
+    extensions: sortExtensions(results, options).slice(offset, offset + size),
+  };
+}
+
+/**
+ * Finds an extension in a list of extensions. The latest version
+ * is returned if no version is specified.
+ */
+export function findExtension(
+  extensions: Extension[],
+  namespace: string,
+  name: string,
+  version?: string
+): Extension | undefined {
+  const versions = extensions.filter(
+    (e) => e.namespace === namespace && e.name === name
+  );
+  if (version) return versions.find((e) => e.version === version);
+  return versions.sort((a, b) => compareVersions(b.version, a.version))[0];
+}
+
+async function readIndex(directory: string): Promise<Extension[]> {
+  const indexPath = join(directory, LOCAL_INDEX_FILE);
+  const { extensions } = JSON.parse(
+    await readFile(indexPath, "utf-8")
+  ) as LocalIndex;
+  if (!Array.isArray(extensions))
+    throw new Error(`Invalid registry index "${indexPath}".`);
+
+  return extensions.map(({ file, ...entry }) => {
+    const vsixPath = join(directory, file);
+    return {
+      displayName: entry.name,
+      description: "",
+      downloadCount: 0,
+      timestamp: new Date(0),
+      ...entry,
+      url: vsixPath,
+      files: { download: vsixPath },
+    };
+  });
+}
+
+function sortExtensions(extensions: Extension[], options: SearchOptions) {
+  const { sortBy = "relevance", sortOrder = "desc" } = options;
+  // There's no relevance ranking so index order is the most relevant
+  if (sortBy === "relevance") return extensions;
+
+  const direction = sortOrder === "asc" ? 1 : -1;
+  return [...extensions].sort((a, b) => {
+    const diff =
+      sortBy === "timestamp"
+        ? new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+        : sortBy === "rating"
+        ? (a.averageRating || 0) - (b.averageRating || 0)
+        : a.downloadCount - b.downloadCount;
+    return diff * direction;
+  });
+}
+
+function compareVersions(a: string, b: string) {
+  const aParts = a.split(".").map((part) => parseInt(part) || 0);
+  const bParts = b.split(".").map((part) => parseInt(part) || 0);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); ++i) {
+    const diff = (aParts[i] || 0) - (bParts[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
@@ -0,0 +1,50 @@
+import "isomorphic-fetch";
+import { Extension, IRegistry, QueryResponse } from "./types";
+
+export const OPEN_VSX_URL = "https://open-vsx.org";
+
+/**
+ * A registry backed by the Open VSX API. Point `baseUrl`
+ * to a self-hosted instance to use that instead of open-vsx.org.
+ */
+export function createOpenVSXRegistry(baseUrl = OPEN_VSX_URL): IRegistry {
+  const api = `${baseUrl.replace(/\/+$/, "")}/api`;
+
+  return {
+    async search(query, options = {}) {
+      const params = new URLSearchParams({
+        query,
+        category: "Themes",
+        offset: String(options.offset || 0),
+        size: String(options.size || 10),
+        sortBy: options.sortBy || "relevance",
+        sortOrder: options.sortOrder || "desc",
+      });
+
+      const response = await fetch(`${api}/-/search?${params}`);
+      if (!response.ok) return { offset: 0, totalSize: 0, extensions: [] };
+
+      const result = (await response.json()) as QueryResponse;
+      return { ...result, extensions: result.extensions || [] };
+    },
+
+    async getExtension(namespace, name, version) {
+      const path = [namespace, name, version]
+        .filter((part): part is string => !!part)
+        .map(encodeURIComponent)
+        .join("/");
+
+      const response = await fetch(`${api}/${path}`);
+      if (!response.ok) return;
+
+      return (await response.json()) as Extension;
+    },
+
+    async download(extension) {
+      const response = await fetch(extension.files.download);
+      if (!response.ok) return;
+
+      return new Uint8Array(await response.arrayBuffer());
+    },
+  };
+}
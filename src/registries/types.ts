@@ -0,0 +1,47 @@
+export interface QueryResponse {
+  offset: number;
+  totalSize: number;
+  extensions: Extension[];
+}
+
+export interface Extension {
+  url: string;
+  files: Files;
+  name: string;
+  namespace: string;
+  version: string;
+  timestamp: Date;
+  averageRating?: number;
+  downloadCount: number;
+  displayName: string;
+  description: string;
+}
+
+export interface SearchOptions {
+  offset?: number;
+  size?: number;
+  sortBy?: "relevance" | "timestamp" | "rating" | "downloadCount";
+  sortOrder?: "asc" | "desc";
+}
+
+interface Files {
+  download: string;
+  icon?: string;
+}
+
+export interface IRegistry {
+  search(query: string, options?: SearchOptions): Promise<QueryResponse>;
+  /**
+   * Gets a specific extension. The latest version
+   * is returned if no version is specified.
+   */
+  getExtension(
+    namespace: string,
+    name: string,
+    version?: string
+  ): Promise<Extension | undefined>;
+  /**
+   * Downloads the VSIX package of an extension.
+   */
+  download(extension: Extension): Promise<Uint8Array | undefined>;
+}
@@ -0,0 +1,113 @@
+/**
+ * A single alternative of a (comma separated) TextMate scope selector
+ * e.g. `source.js meta.function - comment`
+ */
+export interface ScopeSelector {
+  /**
+   * Scopes that must appear in this order in the scope stack
+   * (not necessarily next to each other)
+   */
+  path: string[];
+  /**
+   * The selector doesn't match if any of these paths match
+   */
+  excludes: string[][];
+}
+
+export function parseScopeSelector(
+  selector: string | string[] | undefined
+): ScopeSelector[] {
+  const selectors = typeof selector === "string" ? [selector] : selector || [];
+
+  const result: ScopeSelector[] = [];
+  for (const alternative of selectors.flatMap((s) => s.split(","))) {
+    const paths: string[][] = [[]];
+    for (const token of alternative.trim().split(/\s+/)) {
+      if (!token) continue;
+      if (token === "-") {
+        paths.push([]);
+      } else if (token.startsWith("-")) {
+        paths.push([token.slice(1)]);
+      } else {
+        paths[paths.length - 1].push(token);
+      }
+    }
+
+    const [path, ...excludes] = paths;
+    if (!path.length) continue;
+    result.push({ path, excludes: excludes.filter((e) => e.length > 0) });
+  }
+  return result;
+}
+
+/**
+ * Scores how well a scope selector matches a scope stack (outermost scope
+ * first). Like in VSCode, a match on a deeper scope always beats a match on
+ * an outer scope; after that the selector with more dot separated segments
+ * & then the one with more matching parent scopes wins.
+ * @returns -1 if the selector doesn't match
+ */
+export function scoreScopeSelector(
+  selector: string | string[] | ScopeSelector[] | undefined,
+  scopes: string | string[]
+): number {
+  const stack = typeof scopes === "string" ? scopes.split(/\s+/) : scopes;
+  const selectors = isParsed(selector)
+    ? selector
+    : parseScopeSelector(selector);
+
+  let score = -1;
+  for (const { path, excludes } of selectors) {
+    const pathScore = scorePath(path, stack);
+    if (pathScore < 0) continue;
+    if (excludes.some((exclude) => scorePath(exclude, stack) >= 0)) continue;
+    score = Math.max(score, pathScore);
+  }
+  return score;
+}
+
+/**
+ * @returns true if `scope` is `selector` or a child of it (e.g.
+ * `keyword.control.import` is a child of `keyword.control`)
+ */
+export function isScopeMatch(scope: string, selector: string) {
+  return (
+    scope === selector ||
+    (scope.startsWith(selector) && scope[selector.length] === ".")
+  );
+}
+
+function scorePath(path: string[], stack: string[]): number {
+  let stackIndex = stack.length - 1;
+  let innermostDepth = -1;
+  let innermostSegments = 0;
+  let parentSegments = 0;
+
+  for (let i = path.length - 1; i >= 0; --i) {
+    while (stackIndex >= 0 && !isScopeMatch(stack[stackIndex], path[i]))
+      --stackIndex;
+    if (stackIndex < 0) return -1;
+
+    const segments = path[i].split(".").length;
+    if (i === path.length - 1) {
+      innermostDepth = stackIndex;
+      innermostSegments = segments;
+    } else {
+      parentSegments += segments;
+    }
+    --stackIndex;
+  }
+
+  return (
+    (innermostDepth + 1) * 1e6 +
+    innermostSegments * 1e4 +
+    (path.length - 1) * 1e2 +
+    parentSegments
+  );
+}
+
+function isParsed(
+  selector: string | string[] | ScopeSelector[] | undefined
+): selector is ScopeSelector[] {
+  return Array.isArray(selector) && typeof selector[0] === "object";
+}
@@ -0,0 +1,198 @@
+import {
+  createTokenStyleResolver,
+  FontStyle,
+  parseFontStyle,
+  TokenStyle,
+} from "./token-style";
+import { SemanticTokenStyle, VSCodeTheme } from "./types";
+
+/**
+ * A semantic token or selector e.g. `variable.readonly:typescript`.
+ * The type is `*` for selectors matching all types (e.g. `*.declaration`).
+ */
+export interface SemanticToken {
+  type: string;
+  modifiers: string[];
+  language?: string;
+}
+
+/**
+ * Resolves the style of a semantic token (e.g. `function.defaultLibrary`)
+ * @returns undefined if neither the semanticTokenColors nor the
+ * TextMate scopes the token falls back to style it
+ */
+export type SemanticTokenStyleResolver = (
+  token: string | SemanticToken
+) => Omit<TokenStyle, "background"> | undefined;
+
+type StyleProperty = keyof Omit<TokenStyle, "background">;
+
+const STYLE_PROPERTIES: StyleProperty[] = [
+  "foreground",
+  "bold",
+  "italic",
+  "underline",
+  "strikethrough",
+];
+
+// Taken from VSCode's tokenClassificationRegistry.ts
+const DEFAULT_SCOPES: [selector: string, scopesToProbe: string[][]][] = [
+  ["comment", [["comment"]]],
+  ["string", [["string"]]],
+  ["keyword", [["keyword.control"]]],
+  ["number", [["constant.numeric"]]],
+  ["regexp", [["constant.regexp"]]],
+  ["operator", [["keyword.operator"]]],
+  ["namespace", [["entity.name.namespace"]]],
+  ["type", [["entity.name.type"], ["support.type"]]],
+  ["struct", [["entity.name.type.struct"]]],
+  ["class", [["entity.name.type.class"], ["support.class"]]],
+  ["interface", [["entity.name.type.interface"]]],
+  ["enum", [["entity.name.type.enum"]]],
+  ["typeParameter", [["entity.name.type.parameter"]]],
+  ["function", [["entity.name.function"], ["support.function"]]],
+  ["member", [["entity.name.function.member"], ["support.function"]]],
+  ["method", [["entity.name.function.member"], ["support.function"]]],
+  ["macro", [["entity.name.function.preprocessor"]]],
+  ["variable", [["variable.other.readwrite"], ["entity.name.variable"]]],
+  ["parameter", [["variable.parameter"]]],
+  ["property", [["variable.other.property"]]],
+  ["enumMember", [["variable.other.enummember"]]],
+  ["event", [["variable.other.event"]]],
+  ["decorator", [["entity.name.decorator"], ["entity.name.function"]]],
+  ["variable.readonly", [["variable.other.constant"]]],
+  ["property.readonly", [["variable.other.constant.property"]]],
+  ["type.defaultLibrary", [["support.type"]]],
+  ["class.defaultLibrary", [["support.class"]]],
+  ["interface.defaultLibrary", [["support.class"]]],
+  [
+    "variable.defaultLibrary",
+    [["support.variable"], ["support.other.variable"]],
+  ],
+  ["variable.defaultLibrary.readonly", [["support.constant"]]],
+  ["property.defaultLibrary", [["support.variable.property"]]],
+  ["property.defaultLibrary.readonly", [["support.constant.property"]]],
+  ["function.defaultLibrary", [["support.function"]]],
+  ["member.defaultLibrary", [["support.function"]]],
+];
+
+export function parseSemanticToken(token: string): SemanticToken {
+  const [selector, language] = token.split(":");
+  const [type, ...modifiers] = selector.split(".");
+  return { type: type || "*", modifiers, language };
+}
+
+/**
+ * Scores a semantic token selector against a token the same way VSCode
+ * does: matching the language is worth 10, the type & each modifier 100.
+ * @returns -1 if the selector doesn't match
+ */
+export function scoreSemanticSelector(
+  selector: SemanticToken,
+  token: SemanticToken
+): number {
+  let score = 0;
+  if (selector.language !== undefined) {
+    if (selector.language !== token.language) return -1;
+    score += 10;
+  }
+  if (selector.type !== "*") {
+    if (selector.type !== token.type) return -1;
+    score += 100;
+  }
+  for (const modifier of selector.modifiers) {
+    if (!token.modifiers.includes(modifier)) return -1;
+  }
+  return score + selector.modifiers.length * 100;
+}
+
+/**
+ * Creates a resolver that styles semantic tokens like VSCode: each style
+ * property comes from the best matching `semanticTokenColors` rule. The
+ * properties no rule sets fall back to the TextMate scopes VSCode maps the
+ * token to (e.g. `variable.readonly` -> `variable.other.constant`).
+ *
+ * The `semanticTokenColors` are ignored if the theme doesn't enable
+ * `semanticHighlighting`.
+ */
+export function createSemanticTokenStyleResolver(
+  theme: VSCodeTheme
+): SemanticTokenStyleResolver {
+  const resolveTokenStyle = createTokenStyleResolver(theme.tokenColors);
+  const rules = theme.semanticHighlighting
+    ? Object.entries(theme.semanticTokenColors || {}).map(
+        ([selector, style]) => ({
+          selector: parseSemanticToken(selector),
+          style: toTokenStyle(style),
+        })
+      )
+    : [];
+  const defaultRules = DEFAULT_SCOPES.map(([selector, scopesToProbe]) => ({
+    selector: parseSemanticToken(selector),
+    scopesToProbe,
+  }));
+
+  function resolveScopes(scopesToProbe: string[][]) {
+    for (const scopes of scopesToProbe) {
+      const style = resolveTokenStyle(scopes);
+      if (style && (style.foreground || style.bold !== undefined)) return style;
+    }
+  }
+
+  return (token) => {
+    if (typeof token === "string") token = parseSemanticToken(token);
+
+    const result: Omit<TokenStyle, "background"> = {};
+    const scores: Partial<Record<StyleProperty, number>> = {};
+    function setProperty<P extends StyleProperty>(
+      property: P,
+      style: TokenStyle
+    ) {
+      result[property] = style[property];
+    }
+    function processStyle(score: number, style: TokenStyle) {
+      for (const property of STYLE_PROPERTIES) {
+        if (style[property] === undefined) continue;
+        if ((scores[property] ?? -1) > score) continue;
+        scores[property] = score;
+        setProperty(property, style);
+      }
+    }
+
+    for (const rule of rules) {
+      const score = scoreSemanticSelector(rule.selector, token);
+      if (score >= 0) processStyle(score, rule.style);
+    }
+
+    // Properties set by the theme always win over the defaults
+    for (const property of STYLE_PROPERTIES)
+      if (scores[property] !== undefined) scores[property] = Infinity;
+
+    if (STYLE_PROPERTIES.some((property) => scores[property] === undefined)) {
+      for (const rule of defaultRules) {
+        const score = scoreSemanticSelector(rule.selector, token);
+        if (score < 0) continue;
+        const style = resolveScopes(rule.scopesToProbe);
+        if (style) processStyle(score, style);
+      }
+    }
+
+    if (!Object.keys(scores).length) return;
+    return result;
+  };
+}
+
+function toTokenStyle(style: SemanticTokenStyle): TokenStyle {
+  if (typeof style === "string") return { foreground: style };
+
+  const fontStyle: Partial<FontStyle> = parseFontStyle(style.fontStyle) || {};
+  for (const property of [
+    "bold",
+    "italic",
+    "underline",
+    "strikethrough",
+  ] as const) {
+    if (style[property] !== undefined) fontStyle[property] = style[property];
+  }
+  return { foreground: style.foreground, ...fontStyle };
+}
@@ -0,0 +1,92 @@
+import { ansiColorIdentifiers } from "./base";
+import { AlphaMode, createThemeColors } from "./colors";
+import { VSCodeTheme } from "./types";
+
+export const ANSI_COLOR_NAMES = [
+  "black",
+  "red",
+  "green",
+  "yellow",
+  "blue",
+  "magenta",
+  "cyan",
+  "white",
+] as const;
+
+export type AnsiColorName = (typeof ANSI_COLOR_NAMES)[number];
+
+/**
+ * The colors of VSCode's integrated terminal
+ */
+export interface TerminalPalette {
+  foreground: string;
+  background: string;
+  cursor: string;
+  /**
+   * Color of the character under a block cursor
+   */
+  cursorText: string;
+  selectionBackground: string;
+  /**
+   * Undefined if the selection keeps the text colors
+   */
+  selectionForeground?: string;
+  normal: Record<AnsiColorName, string>;
+  bright: Record<AnsiColorName, string>;
+  /**
+   * All 16 ANSI colors in order: the normal colors then the bright ones
+   */
+  ansi: string[];
+}
+
+/**
+ * Extracts the terminal colors of a theme. Colors the theme doesn't set
+ * fall back to VSCode's defaults for the theme type & the same colors
+ * VSCode uses: the panel/editor background, the terminal foreground for
+ * the cursor etc.
+ *
+ * Translucent colors are composited onto the terminal background by
+ * default since most terminal emulators don't support alpha.
+ */
+export function getTerminalPalette(
+  theme: Pick<VSCodeTheme, "type" | "colors">,
+  alpha: AlphaMode = "composite"
+): TerminalPalette {
+  const themeColors = createThemeColors(theme, alpha);
+  const isDark = themeColors.type === "dark" || themeColors.type === "hcDark";
+
+  function getColor(...ids: string[]) {
+    for (const id of ids) {
+      const color = themeColors.get(id);
+      if (color) return color;
+    }
+  }
+
+  const foreground =
+    getColor("terminal.foreground", "editor.foreground") ||
+    (isDark ? "#ffffff" : "#000000");
+  const background =
+    getColor("terminal.background", "panel.background", "editor.background") ||
+    (isDark ? "#000000" : "#ffffff");
+  const ansi = ansiColorIdentifiers.map((id) => getColor(id) as string);
+
+  return {
+    foreground,
+    background,
+    cursor: getColor("terminalCursor.foreground") || foreground,
+    cursorText: getColor("terminalCursor.background") || background,
+    selectionBackground:
+      getColor("terminal.selectionBackground", "editor.selectionBackground") ||
+      foreground,
+    selectionForeground: getColor("terminal.selectionForeground"),
+    normal: toNamedColors(ansi.slice(0, 8)),
+    bright: toNamedColors(ansi.slice(8)),
+    ansi,
+  };
+}
+
+function toNamedColors(colors: string[]) {
+  return Object.fromEntries(
+    ANSI_COLOR_NAMES.map((name, index) => [name, colors[index]])
+  ) as Record<AnsiColorName, string>;
+}
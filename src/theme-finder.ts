@@ -1,33 +1,22 @@
-import "isomorphic-fetch";
 import { unzipSync } from "fflate";
 import { XMLParser } from "fast-xml-parser";
 import { TextDecoder } from "web-encoding";
-import stripJsonComments from "strip-json-comments";
-import { VSCodeTheme } from "./types";
+import { ExtensionFileReader, VSCodeTheme } from "./types";
+import { getThemeType, resolveTheme } from "./theme-resolver";
 import { dirname, join } from "./path";
-
-interface QueryResponse {
-  offset: number;
-  totalSize: number;
-  extensions: Extension[];
-}
-
-interface Extension {
-  url: string;
-  files: Files;
-  name: string;
-  namespace: string;
-  version: string;
-  timestamp: Date;
-  averageRating?: number;
-  downloadCount: number;
-  displayName: string;
-  description: string;
-}
-
-interface Files {
-  download: string;
-  icon?: string;
+import {
+  Extension,
+  IRegistry,
+  QueryResponse,
+  SearchOptions,
+} from "./registries/types";
+import { createOpenVSXRegistry } from "./registries/openvsx";
+
+export { Extension, SearchOptions };
+
+export interface SearchFilters {
+  minRating?: number;
+  minDownloads?: number;
 }
 
 interface PackageManifest {
@@ -44,6 +33,9 @@ interface Asset {
 }
 
 interface PackageJSON {
+  publisher?: string;
+  name?: string;
+  version?: string;
   contributes: Contributes;
 }
 
@@ -51,84 +43,123 @@ interface Contributes {
   themes: Theme[];
 }
 
-interface Theme {
+export interface Theme {
   label: string;
   uiTheme: string;
   path: string;
 }
 
-export async function searchTheme(query: string): Promise<Extension[]> {
-  const url = `https://open-vsx.org/api/-/search?query=${query}&category=Themes&offset=0&size=10&sortBy=relevance&sortOrder=desc`;
-
+/**
+ * Picks which of the themes contributed by an extension to convert.
+ */
+export type ThemeSelector = (themes: Theme[]) => Promise<Theme[]> | Theme[];
+
+const openVSX = createOpenVSXRegistry();
+
+/**
+ * Searches for themes. The filters are applied to the returned
+ * page of results only so a page may contain less than `size` results.
+ */
+export async function searchTheme(
+  query: string,
+  options: SearchOptions & SearchFilters = {},
+  registry: IRegistry = openVSX
+): Promise<QueryResponse> {
   console.info("Searching for themes:", query);
 
-  const response = await fetch(url);
-  if (!response.ok) return [];
-
-  const result = (await response.json()) as QueryResponse;
+  const { minRating, minDownloads, ...searchOptions } = options;
+  const result = await registry.search(query, searchOptions);
 
   console.info("Found", result.totalSize, "themes");
 
-  return result.extensions || [];
+  return {
+    ...result,
+    extensions: result.extensions.filter(
+      (extension) =>
+        (minRating === undefined ||
+          (extension.averageRating || 0) >= minRating) &&
+        (minDownloads === undefined || extension.downloadCount >= minDownloads)
+    ),
+  };
+}
+
+export async function getExtension(
+  namespace: string,
+  name: string,
+  version?: string,
+  registry: IRegistry = openVSX
+): Promise<Extension | undefined> {
+  console.info(
+    "Getting extension",
+    `${namespace}.${name}${version ? `@${version}` : ""}`
+  );
+
+  return registry.getExtension(namespace, name, version);
 }
 
 export async function downloadTheme(
-  theme: Extension
+  theme: Extension,
+  selectThemes?: ThemeSelector,
+  registry: IRegistry = openVSX
 ): Promise<VSCodeTheme[] | undefined> {
   console.info("Getting", theme.name);
 
-  const response = await fetch(theme.files.download);
-  if (!response.ok) return;
+  const data = await registry.download(theme);
+  if (!data) return;
 
-  console.info("Parsing VSIX");
+  return parseVSIX(data, selectThemes);
+}
 
-  const vsix = unzipSync(new Uint8Array(await response.arrayBuffer()));
+export async function parseVSIX(
+  data: Uint8Array,
+  selectThemes?: ThemeSelector
+): Promise<VSCodeTheme[] | undefined> {
+  console.info("Parsing VSIX");
 
-  const manifest = vsix["extension.vsixmanifest"];
-  if (!manifest) return;
-  const parsedManifest = parseVSIXManifest(manifest);
+  const vsix = unzipSync(data);
+  return readExtensionThemes(async (path) => vsix[path], selectThemes);
+}
 
-  const packageJsonPath = parsedManifest.Assets.Asset.find(
-    (a) => a["@_Type"] === "Microsoft.VisualStudio.Code.Manifest"
-  )?.["@_Path"];
+export async function readExtensionThemes(
+  readFile: ExtensionFileReader,
+  selectThemes?: ThemeSelector
+): Promise<VSCodeTheme[] | undefined> {
+  const packageJsonPath = await findPackageJsonPath(readFile);
   if (!packageJsonPath) return;
 
   console.info("Found package.json at", packageJsonPath);
 
-  const packageJsonRaw = vsix[packageJsonPath];
+  const packageJsonRaw = await readFile(packageJsonPath);
   if (!packageJsonRaw) return;
 
-  const { contributes } = JSON.parse(
+  const { contributes, publisher, name, version } = JSON.parse(
     new TextDecoder().decode(packageJsonRaw)
   ) as PackageJSON;
+  const source =
+    publisher && name && version
+      ? { namespace: publisher, name, version }
+      : undefined;
 
   if (!contributes || !contributes.themes || !contributes.themes.length) return;
 
   console.info(`Found ${contributes.themes.length} theme files`);
 
+  const selectedThemes = selectThemes
+    ? await selectThemes(contributes.themes)
+    : contributes.themes;
+
   const themes: VSCodeTheme[] = [];
-  for (const theme of contributes.themes) {
+  for (const theme of selectedThemes) {
     const themePath = join(dirname(packageJsonPath), theme.path);
-    const vscodeTheme = JSON.parse(
-      stripJsonComments(new TextDecoder().decode(vsix[themePath]))
-    ) as VSCodeTheme;
-
-    if (!vscodeTheme.type && theme.uiTheme) {
-      vscodeTheme.type = theme.uiTheme === "vs-dark" ? "dark" : "light";
-    }
-
-    if (vscodeTheme.include) {
-      const includedThemePath = join(dirname(themePath), vscodeTheme.include);
-      const includedTheme = JSON.parse(
-        stripJsonComments(new TextDecoder().decode(vsix[includedThemePath]))
-      ) as VSCodeTheme;
-
-      vscodeTheme.colors = { ...includedTheme.colors, ...vscodeTheme.colors };
-      vscodeTheme.tokenColors = [
-        ...vscodeTheme.tokenColors,
-        ...includedTheme.tokenColors,
-      ];
-    }
+    const vscodeTheme = await resolveTheme(readFile, themePath);
+
+    if (source) vscodeTheme.source = source;
+    // Like VSCode, the label names themes that don't name themselves
+    vscodeTheme.name ||= theme.label;
+
+    // Like VSCode, uiTheme takes precedence over the theme's own type
+    const type = getThemeType(theme.uiTheme);
+    if (type) vscodeTheme.type = type;
 
     console.info("Collected", theme.label);
 
@@ -138,8 +169,22 @@ export async function downloadTheme(
   return themes;
 }
 
+async function findPackageJsonPath(readFile: ExtensionFileReader) {
+  const manifest = await readFile("extension.vsixmanifest");
+  // Unpacked extensions (e.g. ~/.vscode/extensions/*) have no manifest
+  if (!manifest) return "package.json";
+  const parsedManifest = parseVSIXManifest(manifest);
+
+  return parsedManifest.Assets.Asset.find(
+    (a) => a["@_Type"] === "Microsoft.VisualStudio.Code.Manifest"
+  )?.["@_Path"];
+}
+
 function parseVSIXManifest(manifest: Uint8Array) {
-  const parser = new XMLParser({ ignoreAttributes: false });
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    isArray: (name) => name === "Asset",
+  });
   const parsed = parser.parse(Buffer.from(manifest), {});
   const packageManifest = parsed["PackageManifest"] as PackageManifest;
   return packageManifest;
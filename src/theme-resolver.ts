@@ -0,0 +1,190 @@
+import { TextDecoder } from "web-encoding";
+import stripJsonComments from "strip-json-comments";
+import { ExtensionFileReader, VSCodeTheme } from "./types";
+import { normalizeThemeColors } from "./colors";
+import { convertSettings, parseTmTheme } from "./tmtheme";
+import { dirname, extname, join } from "./path";
+
+type RawTheme = Omit<VSCodeTheme, "tokenColors"> & {
+  tokenColors?: VSCodeTheme["tokenColors"] | string;
+  settings?: VSCodeTheme["tokenColors"];
+};
+
+/**
+ * Reads & parses a VSCode theme JSON file following its `include` chain
+ * to any depth. Included themes are merged the same way VSCode does it:
+ * the including theme's colors override the included ones & its
+ * tokenColors rules come after (i.e. take precedence over) the included
+ * rules. Includes are resolved relative to the file that includes them.
+ *
+ * TextMate themes (.tmTheme) are supported both as the theme file itself
+ * & when referenced from `tokenColors`.
+ *
+ * All colors are normalized to `#RRGGBB` / `#RRGGBBAA`; invalid ones are
+ * dropped with a warning.
+ */
+export async function resolveTheme(
+  readFile: ExtensionFileReader,
+  themePath: string
+): Promise<VSCodeTheme> {
+  const resolved = await resolveIncludes(readFile, themePath, []);
+  const { theme, invalidColors } = normalizeThemeColors({
+    ...resolved,
+    // Unknown types are replaced by the uiTheme's type for extension themes
+    type: getThemeType(resolved.type) || "light",
+    colors: resolved.colors || {},
+    tokenColors: resolved.tokenColors || [],
+  });
+  for (const { path, value } of invalidColors)
+    console.warn(
+      `Ignoring invalid color ${JSON.stringify(
+        value
+      )} at ${path} in "${themePath}"`
+    );
+  return theme;
+}
+
+const THEME_TYPES: Record<string, VSCodeTheme["type"]> = {
+  // uiTheme values used in package.json
+  vs: "light",
+  "vs-dark": "dark",
+  "hc-black": "hcDark",
+  "hc-light": "hcLight",
+  // type values used in theme files
+  light: "light",
+  dark: "dark",
+  hc: "hcDark",
+  hcDark: "hcDark",
+  hcLight: "hcLight",
+};
+
+const THEME_TYPES_BY_LOWERCASE = new Map(
+  Object.entries(THEME_TYPES).map(([type, scheme]) => [
+    type.toLowerCase(),
+    scheme,
+  ])
+);
+
+/**
+ * Maps a VSCode `uiTheme` (e.g. `hc-black`) or theme file `type`
+ * (case insensitively) to the matching color scheme.
+ * @returns undefined for unknown types
+ */
+export function getThemeType(type: unknown): VSCodeTheme["type"] | undefined {
+  if (typeof type !== "string") return;
+  return THEME_TYPES_BY_LOWERCASE.get(type.toLowerCase());
+}
+
+async function resolveIncludes(
+  readFile: ExtensionFileReader,
+  themePath: string,
+  includedFrom: string[]
+): Promise<VSCodeTheme> {
+  if (includedFrom.includes(themePath))
+    throw new Error(
+      `Circular theme include: ${[...includedFrom, themePath].join(" -> ")}`
+    );
+
+  const theme = await loadThemeFile(readFile, themePath, includedFrom);
+  if (!theme.include) return theme;
+
+  const includedTheme = await resolveIncludes(
+    readFile,
+    join(dirname(themePath), theme.include),
+    [...includedFrom, themePath]
+  );
+  return mergeThemes(includedTheme, theme);
+}
+
+async function loadThemeFile(
+  readFile: ExtensionFileReader,
+  themePath: string,
+  includedFrom: string[]
+): Promise<VSCodeTheme> {
+  const data = await readFile(themePath);
+  if (!data) {
+    const parent = includedFrom[includedFrom.length - 1];
+    throw new Error(
+      parent
+        ? `Theme file "${themePath}" (included from "${parent}") not found.`
+        : `Theme file "${themePath}" not found.`
+    );
+  }
+
+  if (isTmTheme(themePath)) return parseTmThemeFile(data, themePath);
+
+  const { settings, tokenColors, ...theme } = parseThemeJSON(data, themePath);
+
+  // Old style themes store their colors in a TextMate `settings` array
+  if (Array.isArray(settings))
+    return { ...theme, ...convertSettings(settings) };
+
+  if (typeof tokenColors !== "string")
+    return { ...theme, tokenColors: tokenColors || [] };
+
+  const tokenColorsPath = join(dirname(themePath), tokenColors);
+  const tokenColorsData = await readFile(tokenColorsPath);
+  if (!tokenColorsData)
+    throw new Error(
+      `Token colors file "${tokenColorsPath}" (referenced from "${themePath}") not found.`
+    );
+
+  if (isTmTheme(tokenColorsPath)) {
+    const tmTheme = parseTmThemeFile(tokenColorsData, tokenColorsPath);
+    return {
+      ...theme,
+      colors: { ...theme.colors, ...tmTheme.colors },
+      tokenColors: tmTheme.tokenColors,
+    };
+  }
+
+  const rules = parseThemeJSON(tokenColorsData, tokenColorsPath);
+  if (!Array.isArray(rules))
+    throw new Error(
+      `Token colors file "${tokenColorsPath}" must contain an array of rules.`
+    );
+  return { ...theme, tokenColors: rules };
+}
+
+function mergeThemes(base: VSCodeTheme, theme: VSCodeTheme): VSCodeTheme {
+  const merged: VSCodeTheme = {
+    ...base,
+    ...theme,
+    semanticHighlighting:
+      base.semanticHighlighting || theme.semanticHighlighting,
+    colors: { ...base.colors, ...theme.colors },
+    tokenColors: [...(base.tokenColors || []), ...(theme.tokenColors || [])],
+    semanticTokenColors: {
+      ...base.semanticTokenColors,
+      ...theme.semanticTokenColors,
+    },
+  };
+  delete merged.include;
+  return merged;
+}
+
+function isTmTheme(path: string) {
+  return extname(path).toLowerCase() === ".tmtheme";
+}
+
+function parseTmThemeFile(data: Uint8Array, themePath: string) {
+  try {
+    return parseTmTheme(data);
+  } catch (e) {
+    throw new Error(
+      `Failed to parse theme file "${themePath}": ${(e as Error).message}`
+    );
+  }
+}
+
+function parseThemeJSON(data: Uint8Array, themePath: string) {
+  try {
+    return JSON.parse(
+      stripJsonComments(new TextDecoder().decode(data))
+    ) as RawTheme;
+  } catch (e) {
+    throw new Error(
+      `Failed to parse theme file "${themePath}": ${(e as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,225 @@
+import { XMLParser } from "fast-xml-parser";
+import { TextDecoder } from "web-encoding";
+import { TokenColor, VSCodeTheme } from "./types";
+
+type PlistNode = { [tag: string]: PlistNode[] | string };
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+interface TmTheme {
+  name?: string;
+  settings?: TokenColor[];
+}
+
+// Taken from VSCode's themeCompatibility.ts
+const SETTING_TO_COLOR_ID: Record<string, string[]> = {
+  background: ["editor.background"],
+  foreground: ["editor.foreground"],
+  selection: ["editor.selectionBackground"],
+  inactiveSelection: ["editor.inactiveSelectionBackground"],
+  selectionHighlightColor: ["editor.selectionHighlightBackground"],
+  findMatchHighlight: [
+    "editor.findMatchHighlightBackground",
+    "peekViewResult.matchHighlightBackground",
+  ],
+  currentFindMatchHighlight: ["editor.findMatchBackground"],
+  hoverHighlight: ["editor.hoverHighlightBackground"],
+  wordHighlight: ["editor.wordHighlightBackground"],
+  wordHighlightStrong: ["editor.wordHighlightStrongBackground"],
+  findRangeHighlight: ["editor.findRangeHighlightBackground"],
+  referenceHighlight: ["peekViewEditor.matchHighlightBackground"],
+  lineHighlight: ["editor.lineHighlightBackground"],
+  rangeHighlight: ["editor.rangeHighlightBackground"],
+  caret: ["editorCursor.foreground"],
+  invisibles: ["editorWhitespace.foreground"],
+  guide: ["editorIndentGuide.background"],
+  activeGuide: ["editorIndentGuide.activeBackground"],
+};
+
+const ANSI_COLORS = [
+  "ansiBlack",
+  "ansiRed",
+  "ansiGreen",
+  "ansiYellow",
+  "ansiBlue",
+  "ansiMagenta",
+  "ansiCyan",
+  "ansiWhite",
+  "ansiBrightBlack",
+  "ansiBrightRed",
+  "ansiBrightGreen",
+  "ansiBrightYellow",
+  "ansiBrightBlue",
+  "ansiBrightMagenta",
+  "ansiBrightCyan",
+  "ansiBrightWhite",
+];
+for (const color of ANSI_COLORS)
+  SETTING_TO_COLOR_ID[color] = [`terminal.${color}`];
+
+/**
+ * Maps workbench colors back to the global settings of a tmTheme i.e. the
+ * reverse of what `convertSettings` does.
+ */
+export function getTmThemeGlobalSettings(
+  getColor: (id: string) => string | undefined
+): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const [setting, [colorId]] of Object.entries(SETTING_TO_COLOR_ID)) {
+    const color = getColor(colorId);
+    if (color) settings[setting] = color;
+  }
+  return settings;
+}
+
+export function parseTmTheme(data: Uint8Array): VSCodeTheme {
+  const tmTheme = parsePlist(data) as TmTheme;
+  if (!tmTheme || !Array.isArray(tmTheme.settings))
+    throw new Error("Invalid tmTheme: missing settings array.");
+
+  return {
+    name: tmTheme.name,
+    ...convertSettings(tmTheme.settings),
+  } as VSCodeTheme;
+}
+
+/**
+ * Converts TextMate style settings (as found in tmTheme files & old VSCode
+ * themes) to VSCode colors & tokenColors. Rules without a scope hold the
+ * global editor settings & get mapped onto workbench colors.
+ */
+export function convertSettings(
+  settings: TokenColor[]
+): Pick<VSCodeTheme, "colors" | "tokenColors"> {
+  const colors: Record<string, string> = {};
+  const tokenColors: TokenColor[] = [];
+
+  for (const rule of settings) {
+    if (rule.scope) {
+      tokenColors.push(rule);
+      continue;
+    }
+
+    const globalSettings = (rule.settings || {}) as Record<string, unknown>;
+    for (const key in globalSettings) {
+      const value = globalSettings[key];
+      const colorIds = SETTING_TO_COLOR_ID[key];
+      if (!colorIds || typeof value !== "string") continue;
+      for (const colorId of colorIds) colors[colorId] = value;
+    }
+  }
+
+  return { colors, tokenColors };
+}
+
+export function parsePlist(data: Uint8Array): PlistValue | undefined {
+  const parser = new XMLParser({
+    preserveOrder: true,
+    parseTagValue: false,
+    ignoreDeclaration: true,
+  });
+  const nodes = parser.parse(new TextDecoder().decode(data)) as PlistNode[];
+  const plist = nodes.find((node) => "plist" in node);
+  if (!plist) throw new Error("Invalid plist: missing <plist> root element.");
+
+  const [root] = elements(plist.plist as PlistNode[]);
+  return root ? toPlistValue(root) : undefined;
+}
+
+/**
+ * Serializes a value as an XML property list. Numbers are always
+ * written as `<real>`.
+ */
+export function buildPlist(value: PlistValue): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+    '<plist version="1.0">',
+    ...toPlistXML(value),
+    "</plist>",
+    "",
+  ].join("\n");
+}
+
+function toPlistXML(value: PlistValue, indent = ""): string[] {
+  const nested = `${indent}\t`;
+  if (Array.isArray(value))
+    return [
+      `${indent}<array>`,
+      ...value.flatMap((item) => toPlistXML(item, nested)),
+      `${indent}</array>`,
+    ];
+
+  switch (typeof value) {
+    case "string":
+      return [`${indent}<string>${escapeXML(value)}</string>`];
+    case "number":
+      return [`${indent}<real>${value}</real>`];
+    case "boolean":
+      return [`${indent}<${value}/>`];
+    default:
+      return [
+        `${indent}<dict>`,
+        ...Object.entries(value).flatMap(([key, item]) => [
+          `${nested}<key>${escapeXML(key)}</key>`,
+          ...toPlistXML(item, nested),
+        ]),
+        `${indent}</dict>`,
+      ];
+  }
+}
+
+function escapeXML(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function toPlistValue(node: PlistNode): PlistValue {
+  const tag = tagName(node);
+  const children = node[tag] as PlistNode[];
+  switch (tag) {
+    case "dict": {
+      const dict: Record<string, PlistValue> = {};
+      const entries = elements(children);
+      for (let i = 0; i < entries.length; i += 2) {
+        const key = entries[i];
+        const value = entries[i + 1];
+        if (tagName(key) !== "key" || !value)
+          throw new Error("Invalid plist: malformed <dict>.");
+        dict[textOf(key)] = toPlistValue(value);
+      }
+      return dict;
+    }
+    case "array":
+      return elements(children).map(toPlistValue);
+    case "integer":
+    case "real":
+      return Number(textOf(node));
+    case "true":
+      return true;
+    case "false":
+      return false;
+    default:
+      // string, date & data are all kept as plain strings
+      return textOf(node);
+  }
+}
+
+function elements(nodes: PlistNode[]) {
+  return nodes.filter((node) => !("#text" in node));
+}
+
+function tagName(node: PlistNode) {
+  return Object.keys(node).find((key) => key !== ":@")!;
+}
+
+function textOf(node: PlistNode) {
+  const children = node[tagName(node)] as PlistNode[];
+  return children.map((child) => child["#text"] || "").join("");
+}
@@ -0,0 +1,103 @@
+import { parseScopeSelector, scoreScopeSelector } from "./scopes";
+import { TokenColor, TokenColorSettings } from "./types";
+
+export interface FontStyle {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strikethrough: boolean;
+}
+
+export interface TokenStyle extends Partial<FontStyle> {
+  foreground?: string;
+  background?: string;
+}
+
+/**
+ * Resolves the effective style of a scope stack (outermost scope first).
+ * @returns undefined if no tokenColors rule matches the scopes
+ */
+export type TokenStyleResolver = (
+  scopes: string | string[]
+) => TokenStyle | undefined;
+
+/**
+ * Creates a resolver that styles scopes the same way VSCode does it:
+ * foreground, background & font style are resolved independently, each
+ * taken from the most specific rule that sets it (the later rule wins if
+ * equally specific). A rule without a foreground therefore inherits it
+ * from a less specific rule.
+ */
+export function createTokenStyleResolver(
+  tokenColors: TokenColor[]
+): TokenStyleResolver {
+  const rules = tokenColors
+    .filter((rule) => !!rule.scope && !!rule.settings)
+    .map((rule) => ({
+      selectors: parseScopeSelector(rule.scope),
+      settings: rule.settings,
+      fontStyle: getFontStyle(rule.settings),
+    }));
+
+  return (scopes) => {
+    let foreground: { score: number; value: string } | undefined;
+    let background: { score: number; value: string } | undefined;
+    let fontStyle: { score: number; value: FontStyle } | undefined;
+
+    for (const rule of rules) {
+      const score = scoreScopeSelector(rule.selectors, scopes);
+      if (score < 0) continue;
+
+      const { settings } = rule;
+      if (settings.foreground && score >= (foreground?.score ?? -1))
+        foreground = { score, value: settings.foreground };
+      if (settings.background && score >= (background?.score ?? -1))
+        background = { score, value: settings.background };
+      if (rule.fontStyle && score >= (fontStyle?.score ?? -1))
+        fontStyle = { score, value: rule.fontStyle };
+    }
+
+    if (!foreground && !background && !fontStyle) return;
+    return {
+      foreground: foreground?.value,
+      background: background?.value,
+      ...fontStyle?.value,
+    };
+  };
+}
+
+/**
+ * Parses a VSCode `fontStyle` (e.g. `"bold italic"`).
+ * @returns undefined if the font style is not set at all
+ */
+export function parseFontStyle(fontStyle?: string): FontStyle | undefined {
+  if (fontStyle === undefined) return;
+
+  const styles = fontStyle.split(/\s+/);
+  return {
+    bold: styles.includes("bold"),
+    italic: styles.includes("italic"),
+    underline: styles.includes("underline"),
+    strikethrough: styles.includes("strikethrough"),
+  };
+}
+
+/**
+ * Gets the font style of a tokenColors rule taking into account the
+ * non-standard `bold`, `italic` & `underline` settings some themes use.
+ */
+export function getFontStyle(
+  settings: TokenColorSettings
+): FontStyle | undefined {
+  const fontStyle = parseFontStyle(settings.fontStyle);
+  const { bold, italic, underline } = settings;
+  if (bold === undefined && italic === undefined && underline === undefined)
+    return fontStyle;
+
+  return {
+    bold: !!bold || !!fontStyle?.bold,
+    italic: !!italic || !!fontStyle?.italic,
+    underline: !!underline || !!fontStyle?.underline,
+    strikethrough: !!fontStyle?.strikethrough,
+  };
+}
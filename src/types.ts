@@ -5,16 +5,70 @@ export type VSCodeTheme = {
   name: string;
   colors: Record<string, string>;
   include?: string;
-  tokenColors: {
-    scope: string | string[];
-    settings: {
-      foreground: string;
-      bold: boolean;
-      italic: boolean;
-      underline: boolean;
-    } & {
-      foreground: string;
-      fontStyle: "bold" | "italic" | "underline";
+  /**
+   * The extension this theme was converted from
+   */
+  source?: ThemeSource;
+  semanticHighlighting?: boolean;
+  /**
+   * Semantic token selector (e.g. `variable.readonly:typescript`) to style
+   */
+  semanticTokenColors?: Record<string, SemanticTokenStyle>;
+  tokenColors: TokenColor[];
+};
+
+export type TokenColor = {
+  name?: string;
+  /**
+   * TextMate scope selector(s). Rules without a scope
+   * hold the global (default) settings.
+   */
+  scope?: string | string[];
+  settings: TokenColorSettings;
+};
+
+export type TokenColorSettings = {
+  foreground?: string;
+  background?: string;
+  /**
+   * Space separated list of `italic`, `bold`, `underline` &
+   * `strikethrough`. An empty string resets the font style.
+   */
+  fontStyle?: string;
+  // Not supported by VSCode but used by some themes
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+};
+
+/**
+ * Either just the foreground color or the full style
+ */
+export type SemanticTokenStyle =
+  | string
+  | {
+      foreground?: string;
+      /**
+       * Same as `fontStyle` in tokenColors. The individual
+       * bold, italic etc. settings take precedence over it.
+       */
+      fontStyle?: string;
+      bold?: boolean;
+      italic?: boolean;
+      underline?: boolean;
+      strikethrough?: boolean;
     };
-  }[];
+
+export type ThemeSource = {
+  namespace: string;
+  name: string;
+  version: string;
 };
+
+/**
+ * Reads a file from an extension package. Paths are always relative
+ * to the package root & use forward slashes.
+ */
+export type ExtensionFileReader = (
+  path: string
+) => Promise<Uint8Array | undefined>;
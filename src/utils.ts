@@ -1,8 +1,53 @@
+import { scoreScopeSelector } from "./scopes";
+import { ThemeSource } from "./types";
+
+/**
+ * @returns true if the scope selector(s) match the given scope stack
+ */
 export function matchScope(scopes: string | string[], matchText: string) {
-  const arrayScopes = typeof scopes === "string" ? [scopes] : scopes;
-  const isWildcard = matchText.includes(".*");
-  const exceptWildcard = isWildcard ? matchText.split(".*")[0] : matchText;
-  for (const scope of arrayScopes || []) {
-    if (scope === matchText || scope === exceptWildcard) return true;
-  }
+  return scoreScopeSelector(scopes, matchText) >= 0;
+}
+
+export function formatSource(source?: ThemeSource) {
+  if (!source) return;
+  return `${source.namespace}.${source.name}@${source.version}`;
+}
+
+export function parseExtensionId(id: string) {
+  const [fullName, version] = id.split("@");
+  const dotIndex = fullName.indexOf(".");
+  if (dotIndex <= 0 || dotIndex === fullName.length - 1) return;
+
+  return {
+    namespace: fullName.slice(0, dotIndex),
+    name: fullName.slice(dotIndex + 1),
+    version: version || undefined,
+  };
+}
+
+/**
+ * @returns a copy of the object without the properties set to undefined
+ */
+export function omitUndefined<T extends object>(object: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+/**
+ * Formats rows as a plain text table with left-aligned columns.
+ * The first row is used as the header.
+ */
+export function formatTable(rows: string[][]) {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  );
+  const lines = rows.map((row) =>
+    row
+      .map((cell, column) => cell.padEnd(widths[column]))
+      .join("  ")
+      .trimEnd()
+  );
+  lines.splice(1, 0, widths.map((width) => "-".repeat(width)).join("  "));
+  return lines.join("\n");
 }
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  compositeColor,
+  createThemeColors,
+  normalizeColor,
+} from "../src/colors";
+
+describe("compositeColor", () => {
+  it("blends translucent colors onto the background", () => {
+    assert.equal(compositeColor("#ffffff80", "#000000"), "#808080");
+    assert.equal(compositeColor("#ff000040", "#0000ff"), "#4000bf");
+  });
+
+  it("keeps opaque & ignores fully transparent colors", () => {
+    assert.equal(compositeColor("#123456", "#ffffff"), "#123456");
+    assert.equal(compositeColor("#12345600", "#abcdef"), "#abcdef");
+  });
+});
+
+describe("normalizeColor", () => {
+  it("expands hex notations to lowercase #rrggbb(aa)", () => {
+    assert.equal(normalizeColor("#ABC"), "#aabbcc");
+    assert.equal(normalizeColor("#abc8"), "#aabbcc88");
+    assert.equal(normalizeColor("#AABBCCFF"), "#aabbcc");
+  });
+
+  it("converts rgb(), rgba() & transparent to hex", () => {
+    assert.equal(normalizeColor("rgb(220, 220, 220)"), "#dcdcdc");
+    assert.equal(normalizeColor(" rgba(38, 79, 120, 0.5) "), "#264f7880");
+    assert.equal(normalizeColor("transparent"), "#00000000");
+  });
+
+  it("rejects notations VSCode doesn't accept", () => {
+    for (const value of ["red", "ff0000", "#ff00000", "rgb(0, 0)", null])
+      assert.equal(normalizeColor(value), undefined);
+  });
+});
+
+describe("createThemeColors", () => {
+  const theme = {
+    type: "dark" as const,
+    colors: {
+      "editor.background": "#000000",
+      "editorGutter.background": "#ffffff",
+      "editor.lineHighlightBackground": "#ffffff80",
+      "editorGutter.addedBackground": "#00000080",
+    },
+  };
+
+  it("keeps alpha in keep mode", () => {
+    const colors = createThemeColors(theme, "keep");
+    assert.equal(colors.get("editor.lineHighlightBackground"), "#ffffff80");
+  });
+
+  it("composites onto the color's own background", () => {
+    const colors = createThemeColors(theme, "composite");
+    assert.equal(colors.get("editor.lineHighlightBackground"), "#808080");
+    // Gutter colors are drawn on the gutter, not the editor
+    assert.equal(colors.get("editorGutter.addedBackground"), "#7f7f7f");
+    assert.equal(colors.flatten("#ffffff80"), "#808080");
+  });
+});
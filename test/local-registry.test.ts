@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { after, before, describe, it } from "node:test";
+import { strToU8, zipSync } from "fflate";
+import { createLocalRegistry } from "../src/registries/local";
+import { parseVSIX } from "../src/theme-finder";
+
+function createVSIX(name: string, version: string) {
+  return zipSync({
+    "package.json": strToU8(
+      JSON.stringify({
+        publisher: "acme",
+        name,
+        version,
+        contributes: {
+          themes: [
+            { label: "Acme Dark", uiTheme: "vs-dark", path: "./dark.json" },
+          ],
+        },
+      })
+    ),
+    "dark.json": strToU8(
+      JSON.stringify({
+        name: "Acme Dark",
+        colors: { "editor.background": "#101010" },
+        tokenColors: [],
+      })
+    ),
+  });
+}
+
+describe("createLocalRegistry", () => {
+  let directory: string;
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "local-registry-"));
+    await writeFile(
+      join(directory, "theme-1.0.0.vsix"),
+      createVSIX("theme", "1.0.0")
+    );
+    await writeFile(
+      join(directory, "theme-1.10.0.vsix"),
+      createVSIX("theme", "1.10.0")
+    );
+    await writeFile(
+      join(directory, "index.json"),
+      JSON.stringify({
+        extensions: [
+          {
+            namespace: "acme",
+            name: "theme",
+            version: "1.0.0",
+            displayName: "Acme Theme",
+            downloadCount: 5,
+            file: "theme-1.0.0.vsix",
+          },
+          {
+            namespace: "acme",
+            name: "theme",
+            version: "1.10.0",
+            displayName: "Acme Theme",
+            downloadCount: 20,
+            file: "theme-1.10.0.vsix",
+          },
+          {
+            namespace: "other",
+            name: "icons",
+            version: "2.0.0",
+            description: "File icons",
+            file: "missing.vsix",
+          },
+        ],
+      })
+    );
+  });
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  it("searches all words in the index", async () => {
+    const registry = createLocalRegistry(directory);
+    const { totalSize, extensions } = await registry.search("acme theme");
+    assert.equal(totalSize, 2);
+    assert.deepEqual(
+      extensions.map((e) => e.version),
+      ["1.0.0", "1.10.0"]
+    );
+    assert.equal((await registry.search("icons")).extensions[0].name, "icons");
+    assert.equal((await registry.search("nothing")).totalSize, 0);
+  });
+
+  it("sorts & pages search results", async () => {
+    const registry = createLocalRegistry(directory);
+    const { totalSize, extensions } = await registry.search("acme", {
+      sortBy: "downloadCount",
+      size: 1,
+    });
+    assert.equal(totalSize, 2);
+    assert.deepEqual(
+      extensions.map((e) => e.version),
+      ["1.10.0"]
+    );
+  });
+
+  it("gets pinned & latest versions", async () => {
+    const registry = createLocalRegistry(directory);
+    const pinned = await registry.getExtension("acme", "theme", "1.0.0");
+    assert.equal(pinned?.version, "1.0.0");
+    const latest = await registry.getExtension("acme", "theme");
+    assert.equal(latest?.version, "1.10.0");
+    const missing = await registry.getExtension("acme", "theme", "3.0.0");
+    assert.equal(missing, undefined);
+  });
+
+  it("downloads the VSIX package of an extension", async () => {
+    const registry = createLocalRegistry(directory);
+    const extension = await registry.getExtension("acme", "theme", "1.10.0");
+    assert.ok(extension);
+    const data = await registry.download(extension);
+    assert.ok(data);
+
+    const themes = await parseVSIX(data);
+    assert.equal(themes?.length, 1);
+    assert.equal(themes[0].name, "Acme Dark");
+    assert.equal(themes[0].type, "dark");
+    assert.equal(themes[0].source?.version, "1.10.0");
+  });
+});
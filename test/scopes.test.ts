@@ -0,0 +1,49 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isScopeMatch, scoreScopeSelector } from "../src/scopes";
+
+describe("scoreScopeSelector", () => {
+  it("matches a scope & its children only", () => {
+    assert.ok(isScopeMatch("keyword.control.import", "keyword.control"));
+    assert.ok(isScopeMatch("keyword", "keyword"));
+    assert.ok(!isScopeMatch("keywords", "keyword"));
+    assert.equal(scoreScopeSelector("string", "source.js comment"), -1);
+  });
+
+  it("prefers a match on a deeper scope over more specific selectors", () => {
+    const stack = "source.js meta.function.js string.quoted.js";
+    assert.ok(
+      scoreScopeSelector("string", stack) >
+        scoreScopeSelector("meta.function.js", stack)
+    );
+  });
+
+  it("prefers selectors with more segments on the same scope", () => {
+    const stack = "source.js string.quoted.double.js";
+    assert.ok(
+      scoreScopeSelector("string.quoted", stack) >
+        scoreScopeSelector("string", stack)
+    );
+  });
+
+  it("scores depth, segments & parent scopes", () => {
+    const stack = ["source.js", "meta.function.js", "string.quoted.js"];
+    // depth 3, 2 segments
+    assert.equal(scoreScopeSelector("string.quoted", stack), 3e6 + 2e4);
+    // depth 3, 1 segment, 1 parent scope with 2 segments
+    assert.equal(
+      scoreScopeSelector("meta.function string", stack),
+      3e6 + 1e4 + 1e2 + 2
+    );
+  });
+
+  it("takes the best alternative & honors excludes", () => {
+    const stack = "source.js comment.line.js";
+    assert.equal(
+      scoreScopeSelector("string, comment.line", stack),
+      scoreScopeSelector("comment.line", stack)
+    );
+    assert.equal(scoreScopeSelector("comment - source.js", stack), -1);
+    assert.ok(scoreScopeSelector("comment - source.css", stack) >= 0);
+  });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveTheme } from "../src/theme-resolver";
+import { ExtensionFileReader } from "../src/types";
+
+function createReader(files: Record<string, unknown>): ExtensionFileReader {
+  return async (path) =>
+    path in files
+      ? new TextEncoder().encode(JSON.stringify(files[path]))
+      : undefined;
+}
+
+describe("resolveTheme", () => {
+  it("merges include chains with the including theme taking precedence", async () => {
+    const theme = await resolveTheme(
+      createReader({
+        "themes/dark.json": {
+          name: "Dark",
+          include: "./base/plus.json",
+          colors: { "editor.background": "#111111" },
+          tokenColors: [
+            { scope: "string", settings: { foreground: "#333333" } },
+          ],
+        },
+        "themes/base/plus.json": {
+          include: "../../common.json",
+          colors: { "editor.foreground": "#eeeeee" },
+          tokenColors: [
+            { scope: "string", settings: { foreground: "#222222" } },
+          ],
+        },
+        "common.json": {
+          type: "dark",
+          colors: {
+            "editor.background": "#000000",
+            "editor.foreground": "#ffffff",
+          },
+          tokenColors: [
+            { scope: "comment", settings: { foreground: "#111111" } },
+          ],
+        },
+      }),
+      "themes/dark.json"
+    );
+
+    assert.equal(theme.name, "Dark");
+    assert.equal(theme.type, "dark");
+    assert.deepEqual(theme.colors, {
+      "editor.background": "#111111",
+      "editor.foreground": "#eeeeee",
+    });
+    assert.deepEqual(
+      theme.tokenColors.map((rule) => rule.settings.foreground),
+      ["#111111", "#222222", "#333333"]
+    );
+    assert.equal(theme.include, undefined);
+  });
+
+  it("rejects circular includes", async () => {
+    await assert.rejects(
+      resolveTheme(
+        createReader({
+          "a.json": { include: "./b.json", colors: {}, tokenColors: [] },
+          "b.json": { include: "./a.json", colors: {}, tokenColors: [] },
+        }),
+        "a.json"
+      ),
+      /Circular theme include: a\.json -> b\.json -> a\.json/
+    );
+  });
+
+  it("reports missing included files", async () => {
+    await assert.rejects(
+      resolveTheme(
+        createReader({
+          "a.json": { include: "./missing.json", colors: {}, tokenColors: [] },
+        }),
+        "a.json"
+      ),
+      /"missing\.json" \(included from "a\.json"\) not found/
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createTokenStyleResolver } from "../src/token-style";
+
+describe("createTokenStyleResolver", () => {
+  it("resolves each attribute from the most specific rule setting it", () => {
+    const resolve = createTokenStyleResolver([
+      { scope: "comment", settings: { foreground: "#111111" } },
+      { scope: "comment.line", settings: { fontStyle: "italic" } },
+    ]);
+    assert.deepEqual(resolve("comment.line.js"), {
+      foreground: "#111111",
+      background: undefined,
+      bold: false,
+      italic: true,
+      underline: false,
+      strikethrough: false,
+    });
+  });
+
+  it("lets the later of two equally specific rules win", () => {
+    const resolve = createTokenStyleResolver([
+      { scope: "string", settings: { foreground: "#111111" } },
+      { scope: "string", settings: { foreground: "#222222" } },
+    ]);
+    assert.equal(resolve("string.quoted")?.foreground, "#222222");
+  });
+
+  it("returns undefined if no rule matches", () => {
+    const resolve = createTokenStyleResolver([
+      { settings: { foreground: "#111111" } },
+      { scope: "string", settings: { foreground: "#222222" } },
+    ]);
+    assert.equal(resolve("comment"), undefined);
+  });
+});